@@ -1,5 +1,5 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import React, { useState, useMemo, useEffect, useCallback } from "react";
+import React, { useState, useMemo, useEffect, useCallback, useRef } from "react";
 import {
   ThemeProvider,
   createTheme,
@@ -29,15 +29,36 @@ import {
   DialogActions,
   Stack,
   FormHelperText,
+  Chip,
+  Alert,
+  AlertTitle,
+  Tooltip,
+  Slider,
+  Drawer,
+  List,
+  ListItem,
+  GlobalStyles,
+  Switch,
+  FormControlLabel,
 } from "@mui/material";
 import ArrowBackIosNewIcon from "@mui/icons-material/ArrowBackIosNew";
 import ArrowForwardIosIcon from "@mui/icons-material/ArrowForwardIos";
 import EditIcon from "@mui/icons-material/Edit";
 import PlayArrowIcon from "@mui/icons-material/PlayArrow";
 import RestartAltIcon from "@mui/icons-material/RestartAlt";
+import SaveIcon from "@mui/icons-material/Save";
+import FolderOpenIcon from "@mui/icons-material/FolderOpen";
+import ContentCopyIcon from "@mui/icons-material/ContentCopy";
+import FolderCopyIcon from "@mui/icons-material/FolderCopy";
+import UploadFileIcon from "@mui/icons-material/UploadFile";
+import DownloadIcon from "@mui/icons-material/Download";
+import PrintIcon from "@mui/icons-material/Print";
 import InfoOutlinedIcon from "@mui/icons-material/InfoOutlined";
 import AddIcon from "@mui/icons-material/Add";
 import DeleteIcon from "@mui/icons-material/Delete";
+import SubdirectoryArrowRightIcon from "@mui/icons-material/SubdirectoryArrowRight";
+import FormatIndentIncreaseIcon from "@mui/icons-material/FormatIndentIncrease";
+import FormatIndentDecreaseIcon from "@mui/icons-material/FormatIndentDecrease";
 
 // Chart.js imports for Fig. 1
 import {
@@ -46,18 +67,23 @@ import {
   LinearScale,
   PointElement,
   LineElement,
+  BarElement,
   Title,
   Tooltip as ChartTooltip,
   Legend,
   Filler,
 } from "chart.js";
-import { Line } from "react-chartjs-2";
+import { Line, Bar } from "react-chartjs-2";
+import { BlockMath } from "react-katex";
+import { principalEigen, rankOrder, SIMULATION_CONFIDENCE, type SimulationMessage, type SimulationModel, type SimulationResult } from "./simulation";
+import "katex/dist/katex.min.css";
 
 ChartJS.register(
   CategoryScale,
   LinearScale,
   PointElement,
   LineElement,
+  BarElement,
   Title,
   ChartTooltip,
   Legend,
@@ -66,10 +92,12 @@ ChartJS.register(
 
 // --- Types ---
 
+// Triangular (l, m, u) or, when m2 is set, trapezoidal (a, b, c, d) = (l, m, m2, u) with the plateau [m, m2]
 type TriangularNumber = {
   l: number;
   m: number;
   u: number;
+  m2?: number;
 };
 
 type LinguisticTerm = {
@@ -80,10 +108,268 @@ type LinguisticTerm = {
   tri: TriangularNumber;
 };
 
+// A named term scale; each matrix uses one of the project's scales
+type TermScale = { id: string; name: string; terms: LinguisticTerm[] };
+
+// A published fuzzy scale the term editor can load
+type ScalePreset = { id: string; name: string; citation: string; terms: LinguisticTerm[] };
+
+// Link from a judgment to a term of the scale; inverse selects 1/term
+type TermRef = { id: string; inverse: boolean };
+
 type MatrixCell = {
   tri: TriangularNumber;
   isInverse: boolean; // true if calculated automatically as 1/x
   saatyValue?: number; // references the base scale, e.g. 3 for (2,3,4)
+  term?: TermRef; // tri and saatyValue are re-read from this term whenever the scale changes
+  isMissing?: boolean; // the expert declined to compare this pair
+  isEstimated?: boolean; // missing judgment filled in by a completion method
+};
+
+type ConsistencyResult = {
+  n: number;
+  lambdaMax: number; // principal eigenvalue of the defuzzified matrix
+  ci: number;
+  cr: number; // Saaty CR of the defuzzified matrix
+  crM: number; // Gogus–Boucher CR of the modal (m) matrix
+  crG: number; // Gogus–Boucher CR of the geometric mean sqrt(l·u) matrix
+  isConsistent: boolean;
+};
+
+type WeightingMethod = 'buckley' | 'chang' | 'fpp';
+
+// How the alternatives are assessed under a leaf criterion
+type RatingMode = 'pairwise' | 'direct' | 'linguistic';
+type CriterionDirection = 'benefit' | 'cost';
+type ValueNormalization = 'linear' | 'minmax' | 'vector';
+
+// A leaf whose alternatives get a value or a rating each instead of a pairwise matrix
+type AltRating =
+  | { mode: 'direct'; values: number[]; direction: CriterionDirection; normalization: ValueNormalization }
+  | { mode: 'linguistic'; ratings: string[] }; // RATING_TERMS id per alternative
+
+// Column of the fuzzy TOPSIS decision matrix: a RATING_TERMS id per alternative
+type TopsisCriterion = { ratings: string[]; direction: CriterionDirection };
+
+// Criteria weights TOPSIS takes from the FAHP pipeline: fuzzy W̃ or normalized crisp N as singletons
+type TopsisWeightSource = 'fuzzy' | 'crisp';
+
+type BuckleyResult = {
+  method: 'buckley';
+  geoMeans: TriangularNumber[];
+  sumGeo: TriangularNumber;
+  invSum: TriangularNumber;
+  fuzzyWeights: TriangularNumber[];
+  defuzzified: number[];
+  weights: number[];
+};
+
+type ChangResult = {
+  method: 'chang';
+  rowSums: TriangularNumber[];
+  totalSum: TriangularNumber;
+  invTotal: TriangularNumber;
+  extents: TriangularNumber[]; // fuzzy synthetic extents S_i
+  possibility: number[][]; // V(S_i ≥ S_k)
+  minDegrees: number[]; // d'(A_i) = min_k V(S_i ≥ S_k)
+  weights: number[];
+};
+
+type FppResult = {
+  method: 'fpp';
+  lambda: number; // consistency index: > 0 consistent, ≤ 0 contradictory judgments
+  judgments: number; // number of upper-triangle judgments used as constraints
+  widened: number; // crisp judgments widened by FPP_MIN_TOLERANCE to keep the program feasible
+  weights: number[];
+};
+
+// Alternatives under a rated leaf: normalized scores S_i, fuzzy weights S_i ⊗ (Σ S_k)^-1, then as in Buckley's method
+type RatingResult = {
+  method: 'rating';
+  mode: AltRating['mode'];
+  scores: TriangularNumber[];
+  fuzzyWeights: TriangularNumber[];
+  defuzzified: number[];
+  weights: number[];
+};
+
+// Weights derived from a pairwise matrix; criteria always have one
+type MatrixDerivation = BuckleyResult | ChangResult | FppResult;
+
+type WeightDerivation = MatrixDerivation | RatingResult;
+
+type DefuzzificationMethod = 'coa' | 'gmi' | 'mom' | 'weighted' | 'integral';
+
+type Defuzzify = (t: TriangularNumber) => number;
+
+type Defuzzifier = {
+  id: DefuzzificationMethod;
+  label: string;
+  formulaLabel: string; // symbolic formula shown in table headers
+  optimismLabel?: string; // set when the method takes the optimism parameter
+  defuzzify: (t: TriangularNumber, optimism: number) => number;
+  formula: (t: TriangularNumber, optimism: number) => string; // formula with the numbers substituted
+  latexLabel: string; // the symbolic formula as KaTeX source
+  latex: (t: TriangularNumber, optimism: number) => string;
+};
+
+type AggregationMode = 'crisp' | 'fuzzy';
+
+type FuzzyRankingMethod = 'possibility' | 'centroid' | 'yager';
+
+type GroupAggregation = 'wgm' | 'minGeoMax';
+
+type CompletionMethod = 'harker' | 'llsm';
+
+type CriterionNode = {
+  id: string;
+  name: string;
+  children: CriterionNode[]; // empty for leaf criteria
+};
+
+// Pairwise matrices of one expert, keyed by node id
+type HierarchyMatrices = {
+  critMatrices: Record<string, MatrixCell[][]>; // internal nodes: comparisons of their children
+  altMatrices: Record<string, MatrixCell[][]>; // leaf criteria: comparisons of the alternatives
+};
+
+type Expert = HierarchyMatrices & {
+  id: string;
+  name: string;
+  weight: number; // relative importance, normalized over all experts
+};
+
+type ModelSettings = {
+  weightingMethod: WeightingMethod;
+  defuzzMethod: DefuzzificationMethod;
+  defuzzOptimism: number;
+  aggregationMode: AggregationMode;
+  fuzzyRankingMethod: FuzzyRankingMethod;
+  groupAggregation: GroupAggregation;
+  completionMethod: CompletionMethod;
+  topsisWeights: TopsisWeightSource;
+};
+
+// Everything the user enters; what a project file restores
+type Project = {
+  scales: TermScale[]; // the first scale serves every matrix without an assignment
+  matrixScales: Record<string, string>; // matrix key ("crit:<node id>" or "alt:<leaf id>") → scale id
+  hierarchy: CriterionNode;
+  altNames: string[];
+  experts: Expert[];
+  altRatings: Record<string, AltRating>; // leaf id → rating; leaves without one use the experts' pairwise matrices
+  topsis: Record<string, TopsisCriterion>; // leaf id → decision matrix column; a missing column rates every alternative Fair
+  settings: ModelSettings;
+};
+
+// Upper-triangle judgment a_ij (i < j) as a reference into the project's term scale; the lower triangle is implied.
+// null marks a pair the expert did not compare.
+type ProjectJudgment = { term: string; inverse: boolean } | null;
+
+// A term scale shared on its own, without a project
+type ScaleFile = {
+  format: typeof SCALE_FORMAT;
+  version: number;
+  name: string;
+  terms: LinguisticTerm[];
+};
+
+type ProjectFile = {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string;
+  scales: TermScale[];
+  matrixScales: Record<string, string>;
+  hierarchy: CriterionNode;
+  alternatives: string[];
+  experts: Array<{
+    id: string;
+    name: string;
+    weight: number;
+    critMatrices: Record<string, ProjectJudgment[][]>; // row i holds a_i,i+1 … a_i,n
+    altMatrices: Record<string, ProjectJudgment[][]>;
+  }>;
+  altRatings: Record<string, AltRating>;
+  topsis: Record<string, TopsisCriterion>;
+  settings: ModelSettings;
+};
+
+// Index record of a project stored in the browser library
+type LibraryEntry = { id: string; name: string; updatedAt: string };
+
+// A spreadsheet cell resolved against the term scale: Saaty value of the term (or its inverse) and its number
+type ParsedJudgment = { value: number; tri: TriangularNumber };
+
+type ImportedCell = { raw: string; judgment: ParsedJudgment | null; error?: string };
+
+// One square block found in a CSV file or worksheet
+type ImportedMatrix = { title: string; items: string[]; cells: ImportedCell[][] };
+
+type ImportCheck = {
+  matrix: MatrixCell[][]; // upper triangle from the file, lower triangle as its reciprocals
+  invalid: Array<[number, number]>; // cells that did not parse; any in the upper triangle blocks the import
+  nonReciprocal: Array<[number, number]>; // lower-triangle or diagonal cells that contradict a_ji = 1 / a_ij
+  conflicts: Array<[number, number]>; // upper-triangle (r < c) positions of the pairs whose lower cell contradicts them
+};
+
+// Which cell of a contradicting pair the import keeps
+type TriangleChoice = 'upper' | 'lower';
+
+// A matrix of the active expert that imported judgments can be written to
+type ImportTarget = { key: string; label: string; name: string; items: string[]; terms: LinguisticTerm[] };
+
+type ExportCell = string | number;
+
+// One calculation table as written to a CSV block or a workbook sheet
+type ExportTable = { sheet: string; title: string; header: string[]; rows: ExportCell[][] };
+
+// Global score of an alternative as a function of one criterion's weight x: intercept + slope·x
+type ScoreLine = { intercept: number; slope: number };
+
+type LeaderFlip = {
+  weight: number; // criterion weight at which another alternative overtakes the leader
+  delta: number; // weight - current weight
+  newLeader: number;
+};
+
+// Ranking recomputed without an alternative or with a duplicate of it added
+type RankReversalScenario = {
+  kind: 'remove' | 'duplicate';
+  altIdx: number;
+  reversedPairs: Array<[number, number]>; // original alternatives whose relative order flips
+};
+
+type LinearConstraint = { coeffs: number[]; rhs: number; type: 'le' | 'eq' };
+
+type CrispAhpResult = {
+  weights: number[]; // principal eigenvector of the Saaty matrix
+  lambdaMax: number;
+  ci: number;
+  cr: number;
+};
+
+// Fuzzy TOPSIS steps; the matrices are indexed [criterion][alternative]
+type TopsisResult = {
+  normalized: TriangularNumber[][];
+  weighted: TriangularNumber[][];
+  positiveIdeal: TriangularNumber[]; // FPIS A* per criterion
+  negativeIdeal: TriangularNumber[]; // FNIS A- per criterion
+  distPositive: number[];
+  distNegative: number[];
+  closeness: number[]; // CC_i = d-_i / (d*_i + d-_i)
+};
+
+type TermOption = { value: number; label: string; tri: TriangularNumber };
+
+type RepairSuggestion = {
+  r: number;
+  c: number;
+  current: number; // defuzzified a_ij
+  implied: number; // w_i / w_j from the principal eigenvector
+  deviation: number; // |ln(a_ij · w_j / w_i)|
+  suggestedValue: number; // Saaty value of the nearest term (or its inverse)
+  suggestedLabel: string;
+  crAfter: number; // Saaty CR once the suggestion is applied
 };
 
 // --- Math Helpers ---
@@ -114,896 +400,5243 @@ const formatFraction = (num: number): string => {
   return formatNumber(num, 3);
 };
 
-// Formats a triangular number for display
+const isTrapezoidal = (t: TriangularNumber): boolean => t.m2 !== undefined;
+
+// Right end of the core: m2 for trapezoids, m for triangles
+const modalEnd = (t: TriangularNumber): number => t.m2 ?? t.m;
+
+// Components in order: (l, m, u) or (l, m, m2, u)
+const fuzzyComponents = (t: TriangularNumber): number[] => isTrapezoidal(t) ? [t.l, t.m, t.m2!, t.u] : [t.l, t.m, t.u];
+
+// The result of an operation is trapezoidal as soon as one operand is
+const withPlateau = (l: number, m: number, m2: number, u: number, trapezoidal: boolean): TriangularNumber =>
+  trapezoidal ? { l, m, m2, u } : { l, m, u };
+
+// Formats a triangular or trapezoidal number for display
 const formatTri = (t: TriangularNumber, precision = PRECISION): string => 
-  `(${formatNumber(t.l, precision)}, ${formatNumber(t.m, precision)}, ${formatNumber(t.u, precision)})`;
+  `(${fuzzyComponents(t).map(v => formatNumber(v, precision)).join(', ')})`;
 
 const formatTriInverse = (t: TriangularNumber): string => 
-  `(${formatFraction(t.l)}, ${formatFraction(t.m)}, ${formatFraction(t.u)})`;
+  `(${fuzzyComponents(t).map(formatFraction).join(', ')})`;
 
-// Inverse of a triangular number (1/u, 1/m, 1/l)
-const fuzzyInverse = (t: TriangularNumber): TriangularNumber => ({
-  l: t.u !== 0 ? 1 / t.u : 0,
-  m: t.m !== 0 ? 1 / t.m : 0,
-  u: t.l !== 0 ? 1 / t.l : 0,
-});
+// Inverse of a fuzzy number (1/u, 1/m, 1/l), or (1/d, 1/c, 1/b, 1/a) for a trapezoid
+const fuzzyInverse = (t: TriangularNumber): TriangularNumber => {
+  const inv = (v: number) => v !== 0 ? 1 / v : 0;
+  return withPlateau(inv(t.u), inv(modalEnd(t)), inv(t.m), inv(t.l), isTrapezoidal(t));
+};
 
-// Multiplication of two triangular numbers
-const fuzzyMultiply = (t1: TriangularNumber, t2: TriangularNumber): TriangularNumber => ({
-  l: t1.l * t2.l,
-  m: t1.m * t2.m,
-  u: t1.u * t2.u,
-});
+// Multiplication of two fuzzy numbers
+const fuzzyMultiply = (t1: TriangularNumber, t2: TriangularNumber): TriangularNumber =>
+  withPlateau(t1.l * t2.l, t1.m * t2.m, modalEnd(t1) * modalEnd(t2), t1.u * t2.u, isTrapezoidal(t1) || isTrapezoidal(t2));
 
-// Geometric mean of an array of triangular numbers (Step 2, Eq. 2)
+// Geometric mean of an array of fuzzy numbers (Step 2, Eq. 2)
 const fuzzyGeoMean = (numbers: TriangularNumber[]): TriangularNumber => {
   const n = numbers.length;
-  let prodL = 1, prodM = 1, prodU = 1;
+  let prodL = 1, prodM = 1, prodM2 = 1, prodU = 1;
   numbers.forEach(num => {
     prodL *= num.l;
     prodM *= num.m;
+    prodM2 *= modalEnd(num);
     prodU *= num.u;
   });
-  return {
-    l: Math.pow(prodL, 1 / n),
-    m: Math.pow(prodM, 1 / n),
-    u: Math.pow(prodU, 1 / n),
-  };
+  return withPlateau(Math.pow(prodL, 1 / n), Math.pow(prodM, 1 / n), Math.pow(prodM2, 1 / n), Math.pow(prodU, 1 / n), numbers.some(isTrapezoidal));
 };
 
-// Sum of triangular numbers (Step 3a, Eq. 3)
+// Sum of fuzzy numbers (Step 3a, Eq. 3)
 const fuzzySum = (numbers: TriangularNumber[]): TriangularNumber => {
-  return numbers.reduce((acc, curr) => ({
-    l: acc.l + curr.l,
-    m: acc.m + curr.m,
-    u: acc.u + curr.u,
-  }), { l: 0, m: 0, u: 0 });
+  return numbers.reduce((acc, curr) => withPlateau(
+    acc.l + curr.l,
+    acc.m + curr.m,
+    modalEnd(acc) + modalEnd(curr),
+    acc.u + curr.u,
+    isTrapezoidal(acc) || isTrapezoidal(curr),
+  ), { l: 0, m: 0, u: 0 });
 };
 
-// Center of Area (Defuzzification) (Step 4, Eq. 6)
+// Center of Area (Defuzzification) (Step 4, Eq. 6); for a trapezoid the centroid of its area
 const centerOfArea = (t: TriangularNumber): number => {
-  return (t.l + t.m + t.u) / 3;
+  if (!isTrapezoidal(t)) return (t.l + t.m + t.u) / 3;
+  const { l: a, m: b, u: d } = t;
+  const c = t.m2!;
+  const base = c + d - a - b;
+  return base > 0 ? ((c + d) * (c + d) - c * d - (a + b) * (a + b) + a * b) / (3 * base) : b;
 };
 
-// --- Constants & Initial Data ---
+// --- Defuzzification ---
 
-const DEFAULT_TERMS: LinguisticTerm[] = [
-  { id: "1", name: "Equally important", shortName: "EI", value: 1, tri: { l: 1, m: 1, u: 1 } },
-  { id: "2", name: "Intermediate value", shortName: "IV13", value: 2, tri: { l: 1, m: 2, u: 3 } },
-  { id: "3", name: "Weakly important", shortName: "WI", value: 3, tri: { l: 2, m: 3, u: 4 } },
-  { id: "4", name: "Intermediate value", shortName: "IV35", value: 4, tri: { l: 3, m: 4, u: 5 } },
-  { id: "5", name: "Fairly important", shortName: "FI", value: 5, tri: { l: 4, m: 5, u: 6 } },
-  { id: "6", name: "Intermediate value", shortName: "IV57", value: 6, tri: { l: 5, m: 6, u: 7 } },
-  { id: "7", name: "Strongly important", shortName: "SI", value: 7, tri: { l: 6, m: 7, u: 8 } },
-  { id: "8", name: "Intermediate value", shortName: "IV79", value: 8, tri: { l: 7, m: 8, u: 9 } },
-  { id: "9", name: "Absolutely important", shortName: "AI", value: 9, tri: { l: 9, m: 9, u: 9 } },
-];
+const f2 = (num: number) => formatNumber(num, 2);
 
-const INITIAL_CRITERIA_NAMES = [
-  "C1 (cargo support)",
-  "C2 (cargo insurance)",
-  "C3 (vehicle monitoring)",
-  "C4 (cargo safety)",
-  "C5 (timeliness of delivery)",
-];
-const INITIAL_ALT_NAMES = [
-  "A1 (Company A)",
-  "A2 (Company B)",
-  "A3 (Company C)",
+// Numbers inside KaTeX formulas
+const tx = (num: number) => formatNumber(num, 4);
+
+// Trapezoids (a, b, c, d) use the same methods generalized to the plateau [b, c]; with b = c they reduce to the triangular forms
+const DEFUZZIFIERS: Defuzzifier[] = [
+  {
+    id: 'coa',
+    label: "Center of area",
+    formulaLabel: "(l + m + u) / 3",
+    defuzzify: t => centerOfArea(t),
+    formula: t => isTrapezoidal(t)
+      ? `((${f2(t.m2!)} + ${f2(t.u)})² - ${f2(t.m2!)}·${f2(t.u)} - (${f2(t.l)} + ${f2(t.m)})² + ${f2(t.l)}·${f2(t.m)}) / (3·(${f2(t.m2!)} + ${f2(t.u)} - ${f2(t.l)} - ${f2(t.m)}))`
+      : `(${f2(t.l)} + ${f2(t.m)} + ${f2(t.u)}) / 3`,
+    latexLabel: String.raw`\frac{l + m + u}{3}`,
+    latex: t => isTrapezoidal(t)
+      ? String.raw`\frac{(${tx(t.m2!)} + ${tx(t.u)})^2 - ${tx(t.m2!)} \cdot ${tx(t.u)} - (${tx(t.l)} + ${tx(t.m)})^2 + ${tx(t.l)} \cdot ${tx(t.m)}}{3\,(${tx(t.m2!)} + ${tx(t.u)} - ${tx(t.l)} - ${tx(t.m)})}`
+      : String.raw`\frac{${tx(t.l)} + ${tx(t.m)} + ${tx(t.u)}}{3}`,
+  },
+  {
+    id: 'gmi',
+    label: "Graded mean integration",
+    formulaLabel: "(l + 4m + u) / 6",
+    defuzzify: t => (t.l + 2 * t.m + 2 * modalEnd(t) + t.u) / 6,
+    formula: t => isTrapezoidal(t)
+      ? `(${f2(t.l)} + 2·${f2(t.m)} + 2·${f2(t.m2!)} + ${f2(t.u)}) / 6`
+      : `(${f2(t.l)} + 4·${f2(t.m)} + ${f2(t.u)}) / 6`,
+    latexLabel: String.raw`\frac{l + 4m + u}{6}`,
+    latex: t => isTrapezoidal(t)
+      ? String.raw`\frac{${tx(t.l)} + 2 \cdot ${tx(t.m)} + 2 \cdot ${tx(t.m2!)} + ${tx(t.u)}}{6}`
+      : String.raw`\frac{${tx(t.l)} + 4 \cdot ${tx(t.m)} + ${tx(t.u)}}{6}`,
+  },
+  {
+    id: 'mom',
+    label: "Mean of maxima",
+    formulaLabel: "m",
+    defuzzify: t => (t.m + modalEnd(t)) / 2,
+    formula: t => isTrapezoidal(t) ? `(${f2(t.m)} + ${f2(t.m2!)}) / 2` : f2(t.m),
+    latexLabel: "m",
+    latex: t => isTrapezoidal(t) ? String.raw`\frac{${tx(t.m)} + ${tx(t.m2!)}}{2}` : tx(t.m),
+  },
+  {
+    // β = 0.5 reproduces the center of area; β → 1 pulls the value towards u
+    id: 'weighted',
+    label: "Weighted centroid (песимізм/оптимізм β)",
+    formulaLabel: "((3 - 2β)l + 2m + (1 + 2β)u) / 6",
+    optimismLabel: "β (оптимізм)",
+    defuzzify: (t, beta) => centerOfArea(t) + (2 * beta - 1) * (t.u - t.l) / 6,
+    formula: (t, beta) => isTrapezoidal(t)
+      ? `${f2(centerOfArea(t))} + ${f2(2 * beta - 1)}·(${f2(t.u)} - ${f2(t.l)}) / 6`
+      : `(${f2(3 - 2 * beta)}·${f2(t.l)} + 2·${f2(t.m)} + ${f2(1 + 2 * beta)}·${f2(t.u)}) / 6`,
+    latexLabel: String.raw`\frac{(3 - 2\beta)\,l + 2m + (1 + 2\beta)\,u}{6}`,
+    latex: (t, beta) => isTrapezoidal(t)
+      ? String.raw`${tx(centerOfArea(t))} + \frac{${f2(2 * beta - 1)} \cdot (${tx(t.u)} - ${tx(t.l)})}{6}`
+      : String.raw`\frac{${f2(3 - 2 * beta)} \cdot ${tx(t.l)} + 2 \cdot ${tx(t.m)} + ${f2(1 + 2 * beta)} \cdot ${tx(t.u)}}{6}`,
+  },
+  {
+    // Liou & Wang total integral value over α-cuts
+    id: 'integral',
+    label: "Total integral value (індекс оптимізму λ)",
+    formulaLabel: "(λu + m + (1 - λ)l) / 2",
+    optimismLabel: "λ (індекс оптимізму)",
+    defuzzify: (t, lambda) => (lambda * (t.u + modalEnd(t)) + (1 - lambda) * (t.l + t.m)) / 2,
+    formula: (t, lambda) => isTrapezoidal(t)
+      ? `(${f2(lambda)}·(${f2(t.m2!)} + ${f2(t.u)}) + ${f2(1 - lambda)}·(${f2(t.l)} + ${f2(t.m)})) / 2`
+      : `(${f2(lambda)}·${f2(t.u)} + ${f2(t.m)} + ${f2(1 - lambda)}·${f2(t.l)}) / 2`,
+    latexLabel: String.raw`\frac{\lambda u + m + (1 - \lambda)\,l}{2}`,
+    latex: (t, lambda) => isTrapezoidal(t)
+      ? String.raw`\frac{${f2(lambda)} \cdot (${tx(t.m2!)} + ${tx(t.u)}) + ${f2(1 - lambda)} \cdot (${tx(t.l)} + ${tx(t.m)})}{2}`
+      : String.raw`\frac{${f2(lambda)} \cdot ${tx(t.u)} + ${tx(t.m)} + ${f2(1 - lambda)} \cdot ${tx(t.l)}}{2}`,
+  },
 ];
 
-// Initial Data Generation
-const getTriForValue = (val: number, terms: LinguisticTerm[]): TriangularNumber => {
-  if (val >= 1) {
-    const t = terms.find(t => t.value === val);
-    return t ? t.tri : T_ONE;
-  } else {
-    // Inverse
-    const baseVal = Math.round(1/val);
-    const t = terms.find(t => t.value === baseVal);
-    return t ? fuzzyInverse(t.tri) : T_ONE;
-  }
+const getDefuzzifier = (method: DefuzzificationMethod): Defuzzifier =>
+  DEFUZZIFIERS.find(d => d.id === method) ?? DEFUZZIFIERS[0];
+
+const makeDefuzzify = (method: DefuzzificationMethod, optimism: number): Defuzzify => {
+  const defuzzifier = getDefuzzifier(method);
+  return t => defuzzifier.defuzzify(t, optimism);
 };
 
-const getInitialMatrix = (size: number, terms: LinguisticTerm[], initialData: Record<string, number> = {}) => {
-    const matrix = Array(size).fill(0).map(() => Array(size).fill(null).map(() => ({ tri: T_ONE, isInverse: false, saatyValue: 1 })));
+const normalizeWeights = (values: number[]): number[] => {
+  const sum = values.reduce((a, b) => a + b, 0);
+  return values.map(v => sum !== 0 ? v / sum : 0);
+};
 
-    for (let r = 0; r < size; r++) {
-      for (let c = 0; c < size; c++) {
-        if (r === c) continue;
-        
-        // Check if we have pre-defined data for upper triangle
-        if (r < c) {
-            const key = `${r}-${c}`;
-            if (initialData[key]) {
-                const val = initialData[key];
-                matrix[r][c] = {
-                    tri: getTriForValue(val, terms),
-                    isInverse: val < 1,
-                    saatyValue: val
-                };
-            }
-        } else {
-            // Lower triangle is inverse of upper
-            const upper = matrix[c][r];
-            const val = upper.saatyValue || 1;
-            matrix[r][c] = {
-                tri: fuzzyInverse(upper.tri),
-                isInverse: true,
-                saatyValue: 1/val // Store the actual numeric relationship
-            };
-        }
-      }
-    }
-    return matrix;
+// --- Weight Derivation Methods ---
+
+const WEIGHTING_METHODS: Array<{ id: WeightingMethod; label: string }> = [
+  { id: 'buckley', label: "Buckley (геометричне середнє)" },
+  { id: 'chang', label: "Chang (extent analysis)" },
+  { id: 'fpp', label: "Mikhailov (fuzzy preference programming)" },
+];
+
+// Buckley's geometric mean method (Steps 2-5, Eq. 2-6)
+const buckleyWeights = (matrix: MatrixCell[][], defuzzify: Defuzzify = centerOfArea): BuckleyResult => {
+  const geoMeans = matrix.map(row => fuzzyGeoMean(row.map(c => c.tri)));
+  const sumGeo = fuzzySum(geoMeans);
+  const invSum = fuzzyInverse(sumGeo);
+  const fuzzyWeights = geoMeans.map(r => fuzzyMultiply(r, invSum));
+  const defuzzified = fuzzyWeights.map(w => defuzzify(w));
+  return { method: 'buckley', geoMeans, sumGeo, invSum, fuzzyWeights, defuzzified, weights: normalizeWeights(defuzzified) };
 };
 
-// Initial Data Maps
-const initialCritValues = {
-    "0-1": 3, "0-2": 4, "0-3": 1, "0-4": 1/2,
-    "1-2": 2, "1-3": 1/3, "1-4": 1,
-    "2-3": 1/5, "2-4": 1/3,
-    "3-4": 1/2,
+// Degree of possibility V(S_i ≥ S_k) of two fuzzy numbers; a trapezoid's core ends at m2
+const degreeOfPossibility = (si: TriangularNumber, sk: TriangularNumber): number => {
+  if (modalEnd(si) >= sk.m) return 1;
+  if (sk.l >= si.u) return 0;
+  return (sk.l - si.u) / ((modalEnd(si) - si.u) - (sk.m - sk.l));
 };
 
-const initialAlt1Values = { "0-1": 2, "0-2": 4, "1-2": 3 };
-const initialAlt2Values = { "0-1": 1/3, "0-2": 1/5, "1-2": 1/3 };
-const initialAlt3Values = { "0-1": 1/3, "0-2": 2, "1-2": 3 };
-const initialAlt4Values = { "0-1": 1, "0-2": 2, "1-2": 2 };
-const initialAlt5Values = { "0-1": 2, "0-2": 1/3, "1-2": 1/4 };
+// Chang's extent analysis: synthetic extents, their degrees of possibility and the minimum degree per row
+const changWeights = (matrix: MatrixCell[][]): ChangResult => {
+  const rowSums = matrix.map(row => fuzzySum(row.map(c => c.tri)));
+  const totalSum = fuzzySum(rowSums);
+  const invTotal = fuzzyInverse(totalSum);
+  const extents = rowSums.map(r => fuzzyMultiply(r, invTotal));
+  const possibility = extents.map((si, i) => extents.map((sk, k) => i === k ? 1 : degreeOfPossibility(si, sk)));
+  const minDegrees = possibility.map(row => Math.min(...row));
+  return { method: 'chang', rowSums, totalSum, invTotal, extents, possibility, minDegrees, weights: normalizeWeights(minDegrees) };
+};
 
+const LP_EPS = 1e-9;
 
-const getInitialCritMatrixState = () => getInitialMatrix(5, DEFAULT_TERMS, initialCritValues);
+// Phase-one simplex with Bland's rule: returns x ≥ 0 satisfying every constraint (rhs ≥ 0), or null if none exists
+const findFeasiblePoint = (constraints: LinearConstraint[], numVars: number): number[] | null => {
+  const slackCount = constraints.filter(c => c.type === 'le').length;
+  const width = numVars + slackCount + (constraints.length - slackCount);
+  const basis: number[] = [];
+  let slackIdx = numVars;
+  let artIdx = numVars + slackCount;
 
-const getInitialAltMatricesState = () => [
-    getInitialMatrix(3, DEFAULT_TERMS, initialAlt1Values),
-    getInitialMatrix(3, DEFAULT_TERMS, initialAlt2Values),
-    getInitialMatrix(3, DEFAULT_TERMS, initialAlt3Values),
-    getInitialMatrix(3, DEFAULT_TERMS, initialAlt4Values),
-    getInitialMatrix(3, DEFAULT_TERMS, initialAlt5Values),
-];
+  const tableau = constraints.map(con => {
+    const row: number[] = Array(width + 1).fill(0);
+    con.coeffs.forEach((a, j) => { row[j] = a; });
+    row[width] = con.rhs;
+    if (con.type === 'le') {
+      row[slackIdx] = 1;
+      basis.push(slackIdx++);
+    } else {
+      row[artIdx] = 1;
+      basis.push(artIdx++);
+    }
+    return row;
+  });
 
+  // Objective row: sum of artificial rows, i.e. w + Σ d_j x_j = Σ b_i
+  const objective: number[] = Array(width + 1).fill(0);
+  constraints.forEach((con, i) => {
+    if (con.type !== 'eq') return;
+    for (let j = 0; j < numVars + slackCount; j++) objective[j] += tableau[i][j];
+    objective[width] += tableau[i][width];
+  });
+  tableau.push(objective);
+  const objRow = tableau.length - 1;
 
-// --- Theming ---
-const theme = createTheme({
-  palette: {
-    primary: { main: "#1976d2" },
-    secondary: { main: "#dc004e" },
-    success: { main: "#4caf50", contrastText: "#fff" },
-    background: { default: "#f5f5f5", paper: "#ffffff" },
-  },
-  typography: {
-    fontFamily: '"Roboto", "Helvetica", "Arial", sans-serif',
-    h5: { fontWeight: 600 },
-    h6: { fontWeight: 500 },
-  },
-  components: {
-    MuiTableCell: {
-      styleOverrides: {
-        root: { padding: "8px 16px" },
-        head: { fontWeight: 700, backgroundColor: "#e0e0e0" },
-      },
-    },
-    MuiPaper: {
-        styleOverrides: {
-          root: { borderRadius: 8, boxShadow: "0 4px 12px rgba(0,0,0,0.05)" },
-        },
-      },
-  },
-});
+  for (let iter = 0; iter < 50 * width; iter++) {
+    let enter = -1;
+    for (let j = 0; j < numVars + slackCount; j++) {
+      if (tableau[objRow][j] > LP_EPS) { enter = j; break; }
+    }
+    if (enter === -1) break;
 
-// --- Components ---
+    let leave = -1;
+    let bestRatio = Infinity;
+    for (let i = 0; i < objRow; i++) {
+      if (tableau[i][enter] <= LP_EPS) continue;
+      const ratio = tableau[i][width] / tableau[i][enter];
+      if (ratio < bestRatio - LP_EPS || (Math.abs(ratio - bestRatio) <= LP_EPS && basis[i] < basis[leave])) {
+        bestRatio = ratio;
+        leave = i;
+      }
+    }
+    if (leave === -1) break;
 
-const TermChart: React.FC<{ terms: LinguisticTerm[] }> = ({ terms }) => {
-  const data = useMemo(() => {
-    const datasets = terms.map((term, index) => {
-      const points = [
-        { x: term.tri.l, y: 0 },
-        { x: term.tri.m, y: 1 },
-        { x: term.tri.u, y: 0 },
-      ];
-      const color = `hsl(${(index * 360) / terms.length}, 70%, 50%)`;
-      return {
-        label: `${term.shortName} (${term.value})`,
-        data: points,
-        borderColor: color,
-        backgroundColor: color.replace('50%)', '50%, 0.1)'),
-        borderWidth: 2,
-        fill: true,
-        tension: 0,
-        showLine: true,
-      };
+    const pivot = tableau[leave][enter];
+    tableau[leave] = tableau[leave].map(v => v / pivot);
+    tableau.forEach((row, k) => {
+      if (k === leave || row[enter] === 0) return;
+      const factor = row[enter];
+      tableau[k] = row.map((v, j) => v - factor * tableau[leave][j]);
     });
-    return { datasets };
-  }, [terms]);
+    basis[leave] = enter;
+  }
 
-  const allValues = terms.flatMap(t => [t.tri.l, t.tri.m, t.tri.u]);
-  const minX = Math.min(...allValues, 0);
-  const maxX = Math.max(...allValues, 9) + 1;
+  if (tableau[objRow][width] > 1e-7) return null;
+  const x: number[] = Array(numVars).fill(0);
+  basis.forEach((b, i) => { if (b < numVars) x[b] = Math.max(0, tableau[i][width]); });
+  return x;
+};
 
-  const options = {
-    responsive: true,
-    maintainAspectRatio: false,
-    scales: {
-      x: {
-        type: 'linear' as const,
-        min: minX,
-        max: maxX,
-        title: { display: true, text: 'Saaty Scale / Fuzzy Scale' }
-      },
-      y: { min: 0, max: 1.1, title: { display: true, text: 'Membership Degree (µ)' } }
-    },
-    plugins: {
-      legend: { position: 'bottom' as const },
-      tooltip: { callbacks: { label: (ctx: any) => `${ctx.dataset.label}: x=${formatNumber(ctx.parsed.x, 2)}, µ=${formatNumber(ctx.parsed.y, 2)}` } }
+// Crisp judgments (l = m = u) get this relative tolerance so the program stays feasible; the result tables say so
+const FPP_MIN_TOLERANCE = 0.1;
+
+// Mikhailov's fuzzy preference programming: max λ s.t. each ratio w_i / w_j satisfies judgment (i, j) to degree λ.
+// Only the upper triangle is used, so the matrix does not need to be reciprocal, and only the pairs the expert
+// actually compared: cells estimated by the completion step add no constraints.
+const fppWeights = (matrix: MatrixCell[][]): FppResult => {
+  const n = matrix.length;
+  const judgments: Array<{ i: number; j: number; m: number; m2: number; dl: number; dr: number }> = [];
+  let widened = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const cell = matrix[i][j];
+      if (cell.isMissing || cell.isEstimated) continue;
+      const { l, m, u } = cell.tri;
+      const m2 = modalEnd(cell.tri);
+      if (m - l < FPP_MIN_TOLERANCE * m || u - m2 < FPP_MIN_TOLERANCE * m2) widened++;
+      judgments.push({ i, j, m, m2, dl: Math.max(m - l, FPP_MIN_TOLERANCE * m), dr: Math.max(u - m2, FPP_MIN_TOLERANCE * m2) });
     }
+  }
+
+  // For a fixed λ the program is linear in w (a trapezoid is fully satisfied anywhere on its plateau [m, m2]):
+  // (m - dl·(1-λ))·w_j - w_i ≤ 0 and w_i - (m2 + dr·(1-λ))·w_j ≤ 0, Σ w = 1
+  const solveAt = (lambda: number): number[] | null => {
+    const constraints: LinearConstraint[] = [];
+    judgments.forEach(({ i, j, m, m2, dl, dr }) => {
+      const lower: number[] = Array(n).fill(0);
+      lower[j] = m - dl * (1 - lambda);
+      lower[i] = -1;
+      const upper: number[] = Array(n).fill(0);
+      upper[i] = 1;
+      upper[j] = -(m2 + dr * (1 - lambda));
+      constraints.push({ coeffs: lower, rhs: 0, type: 'le' }, { coeffs: upper, rhs: 0, type: 'le' });
+    });
+    constraints.push({ coeffs: Array(n).fill(1), rhs: 1, type: 'eq' });
+    return findFeasiblePoint(constraints, n);
   };
 
-  return (
-    <Box sx={{ height: 300, width: '100%', mt: 2, mb: 4 }}>
-      <Line data={data} options={options} />
-    </Box>
-  );
+  // λ = 1 is attainable only by a fully consistent modal matrix; otherwise bisect between a feasible and an infeasible level
+  let weights = solveAt(1);
+  let lambda = 1;
+  if (!weights) {
+    let lo = -1;
+    let hi = 1;
+    weights = solveAt(lo);
+    while (!weights && lo > -1e6) {
+      hi = lo;
+      lo *= 2;
+      weights = solveAt(lo);
+    }
+    for (let iter = 0; iter < 40 && weights && hi - lo > 1e-6; iter++) {
+      const mid = (lo + hi) / 2;
+      const candidate = solveAt(mid);
+      if (candidate) {
+        lo = mid;
+        weights = candidate;
+      } else {
+        hi = mid;
+      }
+    }
+    lambda = lo;
+  }
+
+  return {
+    method: 'fpp',
+    lambda,
+    judgments: judgments.length,
+    widened,
+    weights: weights ? normalizeWeights(weights) : Array(n).fill(1 / n),
+  };
 };
 
-const LinguisticTermEditor: React.FC<{
-  open: boolean;
-  onClose: () => void;
-  terms: LinguisticTerm[];
-  onSave: (terms: LinguisticTerm[]) => void;
-}> = ({ open, onClose, terms, onSave }) => {
-  const [localTerms, setLocalTerms] = useState(terms);
-  const [errors, setErrors] = useState<Record<string, { [key: string]: string }>>({});
+const fppWidenedNote = (widened: number): string =>
+  `Суджень з розкидом менше ±${FPP_MIN_TOLERANCE * 100}% від m (зокрема чітких, l = m = u): ${widened}. Їхні межі розширено до l = ${1 - FPP_MIN_TOLERANCE}·m, u = ${1 + FPP_MIN_TOLERANCE}·m, щоб задача мала розв'язок; λ* обчислено для розширених меж.`;
 
-  useEffect(() => {
-    if (open) {
-        setLocalTerms([...terms].sort((a, b) => a.value - b.value)); 
-        setErrors({});
+const deriveWeights = (matrix: MatrixCell[][], method: WeightingMethod, defuzzify: Defuzzify = centerOfArea): MatrixDerivation => {
+  if (method === 'chang') return changWeights(matrix);
+  if (method === 'fpp') return fppWeights(matrix);
+  return buckleyWeights(matrix, defuzzify);
+};
+
+// --- Fuzzy Ranking ---
+
+const FUZZY_RANKING_METHODS: Array<{ id: FuzzyRankingMethod; label: string }> = [
+  { id: 'possibility', label: "Ступінь можливості (min V)" },
+  { id: 'centroid', label: "Centroid-distance index (Cheng)" },
+  { id: 'yager', label: "Yager's index (l + 2m + u) / 4" }, // (a + b + c + d) / 4 for trapezoids
+];
+
+// Fuzzy weights of a derivation: Buckley's or the ratings' weights, Chang's synthetic extents, or FPP's crisp weights as singletons
+const fuzzyWeightsOf = (derivation: WeightDerivation): TriangularNumber[] => {
+  if (derivation.method === 'buckley' || derivation.method === 'rating') return derivation.fuzzyWeights;
+  if (derivation.method === 'chang') return derivation.extents;
+  return derivation.weights.map(w => ({ l: w, m: w, u: w }));
+};
+
+// Height of the intersection of two triangular numbers
+const fuzzyOverlap = (a: TriangularNumber, b: TriangularNumber): number =>
+  Math.min(degreeOfPossibility(a, b), degreeOfPossibility(b, a));
+
+// Vertical centroid ȳ = (1 + (c − b) / (d + c − a − b)) / 3 of a trapezoid (a, b, c, d): 1/3 for triangles, 1/2 for crisp values
+const centroidHeight = (t: TriangularNumber): number => {
+  const base = modalEnd(t) + t.u - t.l - t.m;
+  return base > 0 ? (1 + (modalEnd(t) - t.m) / base) / 3 : 1 / 2;
+};
+
+// Crisp index per fuzzy score; larger is better for every method
+const fuzzyRankingIndex = (scores: TriangularNumber[], method: FuzzyRankingMethod): number[] => {
+  if (method === 'possibility') {
+    return scores.map((si, i) => Math.min(...scores.map((sk, k) => i === k ? 1 : degreeOfPossibility(si, sk))));
+  }
+  if (method === 'centroid') {
+    return scores.map(s => Math.sqrt(Math.pow(centerOfArea(s), 2) + Math.pow(centroidHeight(s), 2)));
+  }
+  return scores.map(s => (s.l + s.m + modalEnd(s) + s.u) / 4);
+};
+
+// --- α-cut Analysis ---
+
+const ALPHA_LEVELS = Array.from({ length: 11 }, (_, i) => i / 10);
+const OPTIMISM_LEVELS = [0, 0.25, 0.5, 0.75, 1];
+
+// α-cut [l + α(m - l), u - α(u - m)] collapsed by the optimism index λ; m2 replaces m on the right of a trapezoid
+const alphaCutValue = (t: TriangularNumber, alpha: number, lambda: number): number => {
+  const lower = t.l + alpha * (t.m - t.l);
+  const upper = t.u - alpha * (t.u - modalEnd(t));
+  return lambda * upper + (1 - lambda) * lower;
+};
+
+// Crisp matrix at (α, λ): upper triangle from the judgments, lower triangle as exact reciprocals
+const alphaCutMatrix = (matrix: MatrixCell[][], alpha: number, lambda: number): number[][] =>
+  matrix.map((row, r) => row.map((cell, c) => {
+    if (r === c) return 1;
+    if (r < c) return alphaCutValue(cell.tri, alpha, lambda);
+    return 1 / alphaCutValue(matrix[c][r].tri, alpha, lambda);
+  }));
+
+// Global scores from eigenvector AHP on the crisp matrices at (α, λ); rated leaves normalize the cuts of their scores
+const alphaCutScores = (hierarchy: CriterionNode, critMatrices: Record<string, MatrixCell[][]>, altMatrices: MatrixCell[][][], altScores: Array<TriangularNumber[] | null>, alpha: number, lambda: number): number[] => {
+  const critWeights = propagateWeights(hierarchy, node => principalEigen(alphaCutMatrix(critMatrices[node.id], alpha, lambda)).vector);
+  const altWeights = altMatrices.map((mat, cIdx) => altScores[cIdx]
+    ? normalizeWeights(altScores[cIdx].map(t => alphaCutValue(t, alpha, lambda)))
+    : principalEigen(alphaCutMatrix(mat, alpha, lambda)).vector);
+  return altWeights[0].map((_, altIdx) => critWeights.reduce((acc, w, cIdx) => acc + w * altWeights[cIdx][altIdx], 0));
+};
+
+// --- Sensitivity Analysis ---
+
+// Sets criterion j to x and rescales the others proportionally so the weights still sum to 1
+const rescaleWeights = (weights: number[], j: number, x: number): number[] => {
+  const rest = 1 - weights[j];
+  return weights.map((w, k) => k === j ? x : rest > 1e-12 ? w * (1 - x) / rest : (1 - x) / (weights.length - 1));
+};
+
+// With proportional rescaling every global score is linear in the weight of criterion j
+const sensitivityLines = (weights: number[], altLocalWeights: number[][], j: number): ScoreLine[] => {
+  const rest = 1 - weights[j];
+  return altLocalWeights[0].map((_, altIdx) => {
+    const others = weights.reduce((acc, w, k) => k === j ? acc : acc + (rest > 1e-12 ? w / rest : 1 / (weights.length - 1)) * altLocalWeights[k][altIdx], 0);
+    return { intercept: others, slope: altLocalWeights[j][altIdx] - others };
+  });
+};
+
+const scoreAt = (line: ScoreLine, x: number) => line.intercept + line.slope * x;
+
+// Weights in (0, 1) at which two alternatives swap places
+const rankCrossovers = (lines: ScoreLine[]): Array<{ x: number; y: number; a: number; b: number }> => {
+  const points: Array<{ x: number; y: number; a: number; b: number }> = [];
+  lines.forEach((la, a) => lines.forEach((lb, b) => {
+    if (b <= a || Math.abs(la.slope - lb.slope) < 1e-12) return;
+    const x = (lb.intercept - la.intercept) / (la.slope - lb.slope);
+    if (x > 0 && x < 1) points.push({ x, y: scoreAt(la, x), a, b });
+  }));
+  return points.sort((p, q) => p.x - q.x);
+};
+
+// Nearest weights below and above w at which the leader loses first place
+const leaderFlips = (lines: ScoreLine[], w: number): { down: LeaderFlip | null; up: LeaderFlip | null } => {
+  const leader = rankOrder(lines.map(line => scoreAt(line, w)))[0];
+  let down: LeaderFlip | null = null;
+  let up: LeaderFlip | null = null;
+  lines.forEach((line, b) => {
+    if (b === leader || Math.abs(line.slope - lines[leader].slope) < 1e-12) return;
+    const x = (lines[leader].intercept - line.intercept) / (line.slope - lines[leader].slope);
+    if (line.slope > lines[leader].slope && x > w && x <= 1 && (!up || x < up.weight)) up = { weight: x, delta: x - w, newLeader: b };
+    if (line.slope < lines[leader].slope && x < w && x >= 0 && (!down || x > down.weight)) down = { weight: x, delta: x - w, newLeader: b };
+  });
+  return { down, up };
+};
+
+// --- Criteria Hierarchy ---
+
+const GOAL_ID = "goal";
+
+const nodeMatrixLabel = (node: CriterionNode) => node.id === GOAL_ID ? 'Критерії' : `Підкритерії: ${node.name}`;
+
+// Leaf criteria in depth-first order; alternatives are compared only under these
+const getLeaves = (node: CriterionNode): CriterionNode[] =>
+  node.children.length === 0 ? [node] : node.children.flatMap(getLeaves);
+
+// Nodes that own a criteria matrix, in depth-first order starting with the goal
+const getInternalNodes = (node: CriterionNode): CriterionNode[] =>
+  node.children.length === 0 ? [] : [node, ...node.children.flatMap(getInternalNodes)];
+
+const findParent = (root: CriterionNode, id: string): CriterionNode | null => {
+  for (const child of root.children) {
+    if (child.id === id) return root;
+    const found = findParent(child, id);
+    if (found) return found;
+  }
+  return null;
+};
+
+const updateNode = (root: CriterionNode, id: string, fn: (node: CriterionNode) => CriterionNode): CriterionNode =>
+  root.id === id ? fn(root) : { ...root, children: root.children.map(child => updateNode(child, id, fn)) };
+
+const addChildNode = (root: CriterionNode, parentId: string, name: string): CriterionNode =>
+  updateNode(root, parentId, node => ({ ...node, children: [...node.children, { id: crypto.randomUUID(), name, children: [] }] }));
+
+const removeNode = (root: CriterionNode, id: string): CriterionNode =>
+  ({ ...root, children: root.children.filter(child => child.id !== id).map(child => removeNode(child, id)) });
+
+// Moves a node under its previous sibling as the last child
+const indentNode = (root: CriterionNode, id: string): CriterionNode => {
+  const parent = findParent(root, id);
+  const index = parent ? parent.children.findIndex(c => c.id === id) : -1;
+  if (!parent || index < 1) return root;
+  const node = parent.children[index];
+  const prev = parent.children[index - 1];
+  const children = parent.children.filter(c => c.id !== id).map(c => c.id === prev.id ? { ...prev, children: [...prev.children, node] } : c);
+  return updateNode(root, parent.id, p => ({ ...p, children }));
+};
+
+// Moves a node up one level, right after its former parent
+const outdentNode = (root: CriterionNode, id: string): CriterionNode => {
+  const parent = findParent(root, id);
+  const grandparent = parent ? findParent(root, parent.id) : null;
+  if (!parent || !grandparent) return root;
+  const node = parent.children.find(c => c.id === id)!;
+  const children = grandparent.children.flatMap(c => c.id === parent.id
+    ? [{ ...parent, children: parent.children.filter(pc => pc.id !== id) }, node]
+    : [c]);
+  return updateNode(root, grandparent.id, g => ({ ...g, children }));
+};
+
+// Rebuilds one expert's matrices for an edited tree, keeping every judgment between items that still share a parent.
+// A new child of a former leaf inherits that leaf's alternative comparisons.
+const syncHierarchyMatrices = (
+  oldRoot: CriterionNode,
+  newRoot: CriterionNode,
+  matrices: HierarchyMatrices,
+  numAlternatives: number,
+  termsFor: (matrixKey: string) => LinguisticTerm[]
+): HierarchyMatrices => {
+  const oldChildIds: Record<string, string[]> = {};
+  getInternalNodes(oldRoot).forEach(node => { oldChildIds[node.id] = node.children.map(c => c.id); });
+
+  const critMatrices: Record<string, MatrixCell[][]> = {};
+  getInternalNodes(newRoot).forEach(node => {
+    const ids = node.children.map(c => c.id);
+    const prevIds = oldChildIds[node.id] ?? [];
+    const prev = matrices.critMatrices[node.id];
+    const terms = termsFor(critMatrixKey(node.id));
+    critMatrices[node.id] = ids.map((rowId, r) => ids.map((colId, c) => {
+      const pr = prevIds.indexOf(rowId);
+      const pc = prevIds.indexOf(colId);
+      if (r !== c && prev && pr >= 0 && pc >= 0) return prev[pr][pc];
+      if (r === c) return { tri: T_ONE, isInverse: false, saatyValue: 1 };
+      return r < c ? termCell(1, terms) : reciprocalCell(termCell(1, terms));
+    }));
+  });
+
+  const altMatrices: Record<string, MatrixCell[][]> = {};
+  getLeaves(newRoot).forEach(leaf => {
+    const parent = findParent(newRoot, leaf.id);
+    altMatrices[leaf.id] = matrices.altMatrices[leaf.id]
+      ?? (parent ? matrices.altMatrices[parent.id] : undefined)
+      ?? getInitialMatrix(numAlternatives, termsFor(altMatrixKey(leaf.id)));
+  });
+
+  return { critMatrices, altMatrices };
+};
+
+// Global leaf weights: product of the local weights along the path from the goal
+const propagateWeights = (root: CriterionNode, localWeights: (node: CriterionNode) => number[]): number[] => {
+  const walk = (node: CriterionNode, acc: number): number[] => {
+    if (node.children.length === 0) return [acc];
+    const weights = localWeights(node);
+    return node.children.flatMap((child, i) => walk(child, acc * weights[i]));
+  };
+  return walk(root, 1);
+};
+
+// Same propagation with fuzzy local weights
+const propagateFuzzyWeights = (root: CriterionNode, localWeights: (node: CriterionNode) => TriangularNumber[]): TriangularNumber[] => {
+  const walk = (node: CriterionNode, acc: TriangularNumber): TriangularNumber[] => {
+    if (node.children.length === 0) return [acc];
+    const weights = localWeights(node);
+    return node.children.flatMap((child, i) => walk(child, fuzzyMultiply(acc, weights[i])));
+  };
+  return walk(root, T_ONE);
+};
+
+// Every internal node has a square matrix over its children and every leaf an alternatives matrix
+const isModelComplete = (root: CriterionNode, matrices: HierarchyMatrices, numAlternatives: number): boolean =>
+  getInternalNodes(root).every(node => matrices.critMatrices[node.id]?.length === node.children.length)
+  && getLeaves(root).every(leaf => matrices.altMatrices[leaf.id]?.length === numAlternatives);
+
+// --- Monte Carlo Simulation ---
+
+const SIMULATION_ITERATIONS = [1000, 5000, 10000, 20000];
+
+// Flattens the hierarchy into plain arrays the simulation worker can take
+const buildSimulationModel = (root: CriterionNode, critMatrices: Record<string, MatrixCell[][]>, altMatrices: MatrixCell[][][], altScores: Array<TriangularNumber[] | null>): SimulationModel => {
+  const internalNodes = getInternalNodes(root);
+  const matrixIndex = new Map(internalNodes.map((node, i) => [node.id, i]));
+  const walk = (node: CriterionNode, path: Array<[number, number]>): Array<Array<[number, number]>> =>
+    node.children.length === 0
+      ? [path]
+      : node.children.flatMap((child, pos) => walk(child, [...path, [matrixIndex.get(node.id)!, pos]]));
+  const triMatrix = (matrix: MatrixCell[][]) => matrix.map(row => row.map(cell => cell.tri));
+  return {
+    critMatrices: internalNodes.map(node => triMatrix(critMatrices[node.id])),
+    leafPaths: walk(root, []),
+    altMatrices: altMatrices.map(triMatrix),
+    altScores,
+  };
+};
+
+// --- Alternative Ratings ---
+
+const RATING_MODES: Array<{ id: RatingMode; label: string }> = [
+  { id: 'pairwise', label: "Попарні порівняння" },
+  { id: 'direct', label: "Прямі значення" },
+  { id: 'linguistic', label: "Лінгвістичні оцінки" },
+];
+
+const CRITERION_DIRECTIONS: Array<{ id: CriterionDirection; label: string }> = [
+  { id: 'benefit', label: "Вигода (більше — краще)" },
+  { id: 'cost', label: "Витрати (менше — краще)" },
+];
+
+const VALUE_NORMALIZATIONS: Array<{ id: ValueNormalization; label: string }> = [
+  { id: 'linear', label: "Лінійна: x / max (вигода), min / x (витрати)" },
+  { id: 'minmax', label: "Min–max: (x − min) / (max − min)" },
+  { id: 'vector', label: "Векторна: x / √Σx² (витрати: 1 − x / √Σx²)" },
+];
+
+// Five-level rating scale of the alternatives on the 1–9 range of the judgment scales (not Chen's seven-level 0–10 scale)
+const RATING_TERMS: LinguisticTerm[] = [
+  { id: "vp", name: "Very poor", shortName: "VP", value: 1, tri: { l: 1, m: 1, u: 3 } },
+  { id: "p", name: "Poor", shortName: "P", value: 3, tri: { l: 1, m: 3, u: 5 } },
+  { id: "f", name: "Fair", shortName: "F", value: 5, tri: { l: 3, m: 5, u: 7 } },
+  { id: "g", name: "Good", shortName: "G", value: 7, tri: { l: 5, m: 7, u: 9 } },
+  { id: "vg", name: "Very good", shortName: "VG", value: 9, tri: { l: 7, m: 9, u: 9 } },
+];
+
+// Rating given to alternatives added later
+const DEFAULT_RATING_TERM = "f";
+const DEFAULT_RATING_VALUE = 1;
+
+const blankRating = (mode: Exclude<RatingMode, 'pairwise'>, numAlternatives: number): AltRating => mode === 'direct'
+  ? { mode, values: Array(numAlternatives).fill(DEFAULT_RATING_VALUE), direction: 'benefit', normalization: 'linear' }
+  : { mode, ratings: Array(numAlternatives).fill(DEFAULT_RATING_TERM) };
+
+// Larger is better after normalization, whatever the direction
+const normalizeValues = (values: number[], direction: CriterionDirection, method: ValueNormalization): number[] => {
+  const max = Math.max(...values);
+  const min = Math.min(...values);
+  if (method === 'minmax') return values.map(v => max > min ? (direction === 'benefit' ? v - min : max - v) / (max - min) : 1);
+  if (method === 'vector') {
+    const norm = Math.sqrt(values.reduce((acc, v) => acc + v * v, 0));
+    return values.map(v => direction === 'benefit' ? v / norm : 1 - v / norm);
+  }
+  return values.map(v => direction === 'benefit' ? v / max : min / v);
+};
+
+const ratingTerm = (id: string): LinguisticTerm => RATING_TERMS.find(t => t.id === id) ?? RATING_TERMS[0];
+
+// What the user entered for one alternative
+const ratingInputLabel = (rating: AltRating, index: number): string =>
+  rating.mode === 'direct' ? formatNumber(rating.values[index]) : `${ratingTerm(rating.ratings[index]).name} (${ratingTerm(rating.ratings[index]).shortName})`;
+
+const ratingSummary = (rating: AltRating): string => rating.mode === 'direct'
+  ? `прямі значення; ${CRITERION_DIRECTIONS.find(d => d.id === rating.direction)?.label}; ${VALUE_NORMALIZATIONS.find(n => n.id === rating.normalization)?.label}`
+  : 'лінгвістичні оцінки';
+
+// Linear and vector normalization divide by the values, so they need positive ones
+const ratingError = (rating: AltRating): string | null => {
+  if (rating.mode === 'linguistic') return rating.ratings.every(id => RATING_TERMS.some(t => t.id === id)) ? null : "Невідома лінгвістична оцінка.";
+  if (!rating.values.every(isFiniteNumber)) return "Кожна альтернатива потребує числового значення.";
+  if (rating.normalization !== 'minmax' && rating.values.some(v => v <= 0)) return "Лінійна та векторна нормалізація потребують додатних значень.";
+  return null;
+};
+
+// Normalized crisp values as singletons, or the fuzzy numbers of the rating terms
+const ratingScores = (rating: AltRating): TriangularNumber[] => rating.mode === 'linguistic'
+  ? rating.ratings.map(id => ratingTerm(id).tri)
+  : normalizeValues(rating.values, rating.direction, rating.normalization).map(v => ({ l: v, m: v, u: v }));
+
+const ratingWeights = (rating: AltRating, defuzzify: Defuzzify = centerOfArea): RatingResult => {
+  const scores = ratingScores(rating);
+  const invSum = fuzzyInverse(fuzzySum(scores));
+  const fuzzyWeights = scores.map(s => fuzzyMultiply(s, invSum));
+  const defuzzified = fuzzyWeights.map(w => defuzzify(w));
+  return { method: 'rating', mode: rating.mode, scores, fuzzyWeights, defuzzified, weights: normalizeWeights(defuzzified) };
+};
+
+// A rated leaf has no judgments to contradict each other
+const ratingConsistency = (n: number): ConsistencyResult => ({ n, lambdaMax: n, ci: 0, cr: 0, crM: 0, crG: 0, isConsistent: true });
+
+const mapRatings = (altRatings: Record<string, AltRating>, fn: (rating: AltRating) => AltRating): Record<string, AltRating> =>
+  Object.fromEntries(Object.entries(altRatings).map(([id, rating]) => [id, fn(rating)]));
+
+const addRatingItem = (rating: AltRating): AltRating => rating.mode === 'direct'
+  ? { ...rating, values: [...rating.values, DEFAULT_RATING_VALUE] }
+  : { ...rating, ratings: [...rating.ratings, DEFAULT_RATING_TERM] };
+
+const removeRatingItem = (rating: AltRating, index: number): AltRating => rating.mode === 'direct'
+  ? { ...rating, values: rating.values.filter((_, i) => i !== index) }
+  : { ...rating, ratings: rating.ratings.filter((_, i) => i !== index) };
+
+// Appends an exact copy of alternative `index`
+const duplicateRatingItem = (rating: AltRating, index: number): AltRating => rating.mode === 'direct'
+  ? { ...rating, values: [...rating.values, rating.values[index]] }
+  : { ...rating, ratings: [...rating.ratings, rating.ratings[index]] };
+
+// Keeps the entries of leaves that still exist; a leaf split into sub-criteria hands its entry to the new leaves
+const syncLeafEntries = <T,>(root: CriterionNode, entries: Record<string, T>): Record<string, T> => {
+  const next: Record<string, T> = {};
+  getLeaves(root).forEach(leaf => {
+    const parent = findParent(root, leaf.id);
+    const entry = entries[leaf.id] ?? (parent ? entries[parent.id] : undefined);
+    if (entry) next[leaf.id] = entry;
+  });
+  return next;
+};
+
+// --- Model Pipeline ---
+
+type ModelOptions = {
+  weightingMethod: WeightingMethod;
+  defuzzify: Defuzzify;
+  aggregationMode: AggregationMode;
+  fuzzyRankingMethod: FuzzyRankingMethod;
+  altRatings: Record<string, AltRating>;
+};
+
+// Local weights of every matrix, global scores and the final ranking
+const computeResults = (hierarchy: CriterionNode, matrices: HierarchyMatrices, altNames: string[], options: ModelOptions) => {
+    const { weightingMethod, defuzzify, aggregationMode, fuzzyRankingMethod, altRatings } = options;
+    const leaves = getLeaves(hierarchy);
+    const numCriteria = leaves.length;
+
+    // 1. Process Criteria: every node of the hierarchy, then propagate down to the leaves
+    const nodes = getInternalNodes(hierarchy).map(node => ({ node, derivation: deriveWeights(matrices.critMatrices[node.id], weightingMethod, defuzzify) }));
+    const derivationById: Record<string, WeightDerivation> = Object.fromEntries(nodes.map(n => [n.node.id, n.derivation]));
+    const critNormWeights = propagateWeights(hierarchy, node => derivationById[node.id].weights);
+
+    // 2. Process Alternatives
+    const alts = leaves.map(leaf => altRatings[leaf.id] ? ratingWeights(altRatings[leaf.id], defuzzify) : deriveWeights(matrices.altMatrices[leaf.id], weightingMethod, defuzzify));
+    const altLocalWeights = alts.map(a => a.weights);
+
+    // 3. Global Scores
+    const globalScores = altNames.map((_, altIdx) => {
+        let score = 0;
+        for (let cIdx = 0; cIdx < numCriteria; cIdx++) {
+            const critWeight = critNormWeights[cIdx] || 0;
+            const altWeight = altLocalWeights[cIdx][altIdx] || 0;
+            score += critWeight * altWeight;
+        }
+        return score;
+    });
+
+    // 4. Fully fuzzy global scores: S = ∑ W_j ⊗ w_ij
+    const critFuzzyWeights = propagateFuzzyWeights(hierarchy, node => fuzzyWeightsOf(derivationById[node.id]));
+    const altFuzzyWeights = alts.map(a => fuzzyWeightsOf(a));
+    const fuzzyGlobalScores = altNames.map((_, altIdx) =>
+        fuzzySum(critFuzzyWeights.map((w, cIdx) => fuzzyMultiply(w, altFuzzyWeights[cIdx][altIdx])))
+    );
+    const rankingScores = aggregationMode === 'fuzzy' ? fuzzyRankingIndex(fuzzyGlobalScores, fuzzyRankingMethod) : globalScores;
+
+    const ranked = rankingScores
+        .map((score, idx) => ({ name: altNames[idx], score, idx, fuzzyScore: fuzzyGlobalScores[idx] }))
+        .sort((a, b) => b.score - a.score);
+
+    return {
+        nodes, alts, critNormWeights, altLocalWeights, globalScores, critFuzzyWeights, fuzzyGlobalScores, ranked
+    };
+};
+
+type ModelResults = ReturnType<typeof computeResults>;
+
+// --- Rank Reversal ---
+
+// Appends an exact copy of alternative `index`, judged equal to the original
+const duplicateMatrixItem = (matrix: MatrixCell[][], index: number): MatrixCell[][] => {
+    const equal: MatrixCell = { tri: T_ONE, isInverse: false, saatyValue: 1 };
+    const rows = matrix.map((row, r) => [...row, r === index ? equal : row[index]]);
+    return [...rows, [...matrix[index], equal]];
+};
+
+// Pairs (a, b) of `alts` ranked in opposite order by the two position maps
+const reversedPairs = (alts: number[], before: Map<number, number>, after: Map<number, number>): Array<[number, number]> =>
+    alts.flatMap((a, i) => alts.slice(i + 1)
+        .filter(b => Math.sign(before.get(a)! - before.get(b)!) !== Math.sign(after.get(a)! - after.get(b)!))
+        .map(b => [a, b] as [number, number]));
+
+// Re-runs the model once per alternative left out and, if requested, once per alternative duplicated
+const rankReversalScenarios = (hierarchy: CriterionNode, matrices: HierarchyMatrices, altNames: string[], options: ModelOptions, baseRanked: ModelResults['ranked'], withDuplicates: boolean): RankReversalScenario[] => {
+    const basePositions = new Map(baseRanked.map((item, pos) => [item.idx, pos]));
+    const positionsOf = (ranked: ModelResults['ranked'], originalIdx: number[]) =>
+        new Map(ranked.filter(item => item.idx < originalIdx.length).map((item, pos) => [originalIdx[item.idx], pos]));
+    const allAlts = altNames.map((_, idx) => idx);
+
+    const removals = altNames.length < 3 ? [] : allAlts.map(altIdx => {
+        const kept = allAlts.filter(idx => idx !== altIdx);
+        const reduced = { ...matrices, altMatrices: mapMatrices(matrices.altMatrices, mat => removeMatrixItem(mat, altIdx)) };
+        const reducedOptions = { ...options, altRatings: mapRatings(options.altRatings, rating => removeRatingItem(rating, altIdx)) };
+        const ranked = computeResults(hierarchy, reduced, kept.map(idx => altNames[idx]), reducedOptions).ranked;
+        return { kind: 'remove' as const, altIdx, reversedPairs: reversedPairs(kept, basePositions, positionsOf(ranked, kept)) };
+    });
+    const duplicates = !withDuplicates ? [] : allAlts.map(altIdx => {
+        const extended = { ...matrices, altMatrices: mapMatrices(matrices.altMatrices, mat => duplicateMatrixItem(mat, altIdx)) };
+        const extendedOptions = { ...options, altRatings: mapRatings(options.altRatings, rating => duplicateRatingItem(rating, altIdx)) };
+        const ranked = computeResults(hierarchy, extended, [...altNames, `${altNames[altIdx]} (копія)`], extendedOptions).ranked;
+        return { kind: 'duplicate' as const, altIdx, reversedPairs: reversedPairs(allAlts, basePositions, positionsOf(ranked, allAlts)) };
+    });
+    return [...removals, ...duplicates];
+};
+
+// --- Group Decision Making ---
+
+const GROUP_AGGREGATIONS: Array<{ id: GroupAggregation; label: string }> = [
+  { id: 'wgm', label: "Зважене геометричне середнє (l, m, u)" },
+  { id: 'minGeoMax', label: "min / геометричне середнє / max (розкид думок)" },
+];
+
+const normalizedExpertWeights = (experts: Expert[]): number[] => {
+  const weights = experts.map(e => Math.max(0, e.weight || 0));
+  const sum = weights.reduce((a, b) => a + b, 0);
+  return sum > 0 ? weights.map(w => w / sum) : experts.map(() => 1 / experts.length);
+};
+
+// Cell-by-cell aggregation of the experts' matrices; both operators keep the result reciprocal
+const aggregateMatrices = (matrices: MatrixCell[][][], weights: number[], operator: GroupAggregation): MatrixCell[][] => {
+  const weightedGeoMean = (values: number[]) => Math.exp(values.reduce((acc, v, k) => acc + weights[k] * Math.log(v), 0));
+  return matrices[0].map((row, r) => row.map((_, c) => {
+    const cells = matrices.map(mat => mat[r][c]);
+    const m = weightedGeoMean(cells.map(cell => cell.tri.m));
+    const m2 = weightedGeoMean(cells.map(cell => modalEnd(cell.tri)));
+    const trapezoidal = cells.some(cell => isTrapezoidal(cell.tri));
+    const tri = operator === 'wgm'
+      ? withPlateau(weightedGeoMean(cells.map(cell => cell.tri.l)), m, m2, weightedGeoMean(cells.map(cell => cell.tri.u)), trapezoidal)
+      : withPlateau(Math.min(...cells.map(cell => cell.tri.l)), m, m2, Math.max(...cells.map(cell => cell.tri.u)), trapezoidal);
+    const saatyValue = weightedGeoMean(cells.map(cell => cell.saatyValue || 1));
+    // A pair no expert compared stays marked as estimated, so FPP leaves it out of the group matrix too
+    return { tri, isInverse: r > c || saatyValue < 1, saatyValue, ...(cells.every(cell => cell.isEstimated) ? { isEstimated: true } : {}) };
+  }));
+};
+
+const mapMatrices = (matrices: Record<string, MatrixCell[][]>, fn: (matrix: MatrixCell[][], id: string) => MatrixCell[][]): Record<string, MatrixCell[][]> =>
+  Object.fromEntries(Object.entries(matrices).map(([id, matrix]) => [id, fn(matrix, id)]));
+
+// Group matrices for every node of the hierarchy
+const aggregateExperts = (experts: Expert[], operator: GroupAggregation): HierarchyMatrices => {
+  const weights = normalizedExpertWeights(experts);
+  return {
+    critMatrices: mapMatrices(experts[0].critMatrices, (_, id) => aggregateMatrices(experts.map(e => e.critMatrices[id]), weights, operator)),
+    altMatrices: mapMatrices(experts[0].altMatrices, (_, id) => aggregateMatrices(experts.map(e => e.altMatrices[id]), weights, operator)),
+  };
+};
+
+// Kendall's coefficient of concordance W over the experts' rank orders (1 = full agreement)
+const kendallW = (orders: number[][]): number => {
+  const m = orders.length;
+  const n = orders[0]?.length ?? 0;
+  if (m < 2 || n < 2) return 1;
+  const rankSums: number[] = Array(n).fill(0);
+  orders.forEach(order => order.forEach((idx, pos) => { rankSums[idx] += pos + 1; }));
+  const meanRankSum = (m * (n + 1)) / 2;
+  const s = rankSums.reduce((acc, r) => acc + Math.pow(r - meanRankSum, 2), 0);
+  return (12 * s) / (m * m * (Math.pow(n, 3) - n));
+};
+
+// Spearman's rank correlation of two rank orders over the same items
+const spearmanRho = (orderA: number[], orderB: number[]): number => {
+  const n = orderA.length;
+  if (n < 2) return 1;
+  const d2 = orderA.reduce((acc, idx, pos) => acc + Math.pow(pos - orderB.indexOf(idx), 2), 0);
+  return 1 - (6 * d2) / (n * (n * n - 1));
+};
+
+// --- Consistency ---
+
+const CONSISTENCY_THRESHOLD = 0.1;
+
+// Saaty's random index for n = 1..15
+const SAATY_RI = [0, 0, 0.58, 0.9, 1.12, 1.24, 1.32, 1.41, 1.45, 1.49, 1.51, 1.48, 1.56, 1.57, 1.59];
+// Gogus & Boucher (1998) random indices for the modal and geometric mean matrices, n = 1..15
+const GB_RI_M = [0, 0, 0.489, 0.7937, 1.072, 1.1996, 1.2874, 1.341, 1.3793, 1.4095, 1.4181, 1.4462, 1.4555, 1.4913, 1.4986];
+const GB_RI_G = [0, 0, 0.1796, 0.2627, 0.3597, 0.3818, 0.409, 0.4164, 0.4348, 0.4455, 0.4536, 0.4776, 0.4691, 0.4804, 0.488];
+
+const getRandomIndex = (table: number[], n: number): number => n < 1 ? 0 : table[Math.min(n, table.length) - 1];
+
+const consistencyIndex = (lambdaMax: number, n: number): number => n > 1 ? Math.max(0, (lambdaMax - n) / (n - 1)) : 0;
+
+const consistencyRatio = (matrix: number[][], riTable: number[]): number => {
+  const n = matrix.length;
+  const ri = getRandomIndex(riTable, n);
+  if (ri === 0) return 0;
+  return consistencyIndex(principalEigen(matrix).lambdaMax, n) / ri;
+};
+
+// Saaty CI/CR on the defuzzified matrix plus Gogus–Boucher CR on the m and sqrt(l·u) matrices
+const computeConsistency = (matrix: MatrixCell[][], defuzzify: Defuzzify = centerOfArea): ConsistencyResult => {
+  const n = matrix.length;
+  const crisp = matrix.map(row => row.map(c => defuzzify(c.tri)));
+  const { lambdaMax } = principalEigen(crisp);
+  const ci = consistencyIndex(lambdaMax, n);
+  const ri = getRandomIndex(SAATY_RI, n);
+  const cr = ri !== 0 ? ci / ri : 0;
+
+  const modal = matrix.map(row => row.map(c => c.tri.m));
+  const geometric = matrix.map(row => row.map(c => Math.sqrt(c.tri.l * c.tri.u)));
+  const crM = consistencyRatio(modal, GB_RI_M);
+  const crG = consistencyRatio(geometric, GB_RI_G);
+
+  return {
+    n, lambdaMax, ci, cr, crM, crG,
+    isConsistent: cr <= CONSISTENCY_THRESHOLD && crM <= CONSISTENCY_THRESHOLD && crG <= CONSISTENCY_THRESHOLD,
+  };
+};
+
+// --- Incomplete Matrices ---
+
+const COMPLETION_METHODS: Array<{ id: CompletionMethod; label: string }> = [
+  { id: 'harker', label: "Harker (нечіткий, по компонентах l/m/u)" },
+  { id: 'llsm', label: "Логарифмічні найменші квадрати (LLSM, по l/m/u)" },
+];
+
+// Select value of the "?" option; Saaty values are always positive
+const MISSING_JUDGMENT = 0;
+
+const hasMissingJudgments = (matrix: MatrixCell[][]): boolean => matrix.some(row => row.some(cell => cell.isMissing));
+
+// Known comparisons must link every item to every other, directly or through a chain
+const isComparisonGraphConnected = (matrix: MatrixCell[][]): boolean => {
+  const n = matrix.length;
+  if (n === 0) return true;
+  const visited = new Set([0]);
+  const queue = [0];
+  while (queue.length > 0) {
+    const r = queue.shift()!;
+    for (let c = 0; c < n; c++) {
+      if (c === r || visited.has(c) || matrix[r][c].isMissing) continue;
+      visited.add(c);
+      queue.push(c);
     }
-  }, [open, terms]);
+  }
+  return visited.size === n;
+};
+
+// Reciprocal crisp matrix of one component (l, m, m2 or u) of the upper-triangle judgments; null marks a missing pair
+const componentMatrix = (matrix: MatrixCell[][], component: (t: TriangularNumber) => number): Array<Array<number | null>> =>
+  matrix.map((row, r) => row.map((cell, c) => {
+    if (r === c) return 1;
+    if (cell.isMissing) return null;
+    return r < c ? component(cell.tri) : 1 / component(matrix[c][r].tri);
+  }));
+
+// Harker: a missing a_ij becomes 0 and the diagonal 1 + (missing in row i); a_ij is then estimated as w_i / w_j
+const harkerWeights = (a: Array<Array<number | null>>): number[] => {
+  const harker = a.map((row, r) => row.map((v, c) => r === c ? 1 + row.filter(x => x === null).length : v ?? 0));
+  return principalEigen(harker, 1000).vector;
+};
+
+// Gaussian elimination with partial pivoting
+const solveLinearSystem = (a: number[][], b: number[]): number[] => {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    const pivot = m.reduce((best, _, r) => r >= col && Math.abs(m[r][col]) > Math.abs(m[best][col]) ? r : best, col);
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let r = col + 1; r < n; r++) {
+      const f = m[r][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[r][k] -= f * m[col][k];
+    }
+  }
+  const x = Array(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    x[r] = (m[r][n] - m[r].slice(r + 1, n).reduce((acc, v, k) => acc + v * x[r + 1 + k], 0)) / m[r][r];
+  }
+  return x;
+};
+
+// LLSM: minimizes Σ (ln a_ij - v_i + v_j)² over the known pairs (graph Laplacian system, v_0 = 0); w_i = exp(v_i)
+const llsmWeights = (a: Array<Array<number | null>>): number[] => {
+  const n = a.length;
+  const lap = a.map((row, r) => row.map((v, c): number => r !== c && v !== null ? -1 : 0));
+  lap.forEach((row, r) => { row[r] = -row.reduce((acc, v) => acc + v, 0); });
+  const rhs = a.map((row, r) => row.reduce<number>((acc, v, c) => r !== c && v !== null ? acc + Math.log(v) : acc, 0));
+  lap[0] = Array(n).fill(0);
+  lap[0][0] = 1;
+  rhs[0] = 0;
+  return solveLinearSystem(lap, rhs).map(Math.exp);
+};
+
+// Estimates every missing judgment component-wise; the matrix is returned unchanged when it is complete or disconnected
+const completeMatrix = (matrix: MatrixCell[][], method: CompletionMethod): MatrixCell[][] => {
+  if (!hasMissingJudgments(matrix) || !isComparisonGraphConnected(matrix)) return matrix;
+  const solve = method === 'harker' ? harkerWeights : llsmWeights;
+  const components: Array<(t: TriangularNumber) => number> = [t => t.l, t => t.m, modalEnd, t => t.u];
+  const [wl, wm, wm2, wu] = components.map(component => solve(componentMatrix(matrix, component)));
+  const trapezoidal = matrix.some(row => row.some(cell => !cell.isMissing && isTrapezoidal(cell.tri)));
+  const completed = matrix.map(row => [...row]);
+  for (let r = 0; r < matrix.length; r++) {
+    for (let c = r + 1; c < matrix.length; c++) {
+      if (!matrix[r][c].isMissing) continue;
+      const [l, m, m2, u] = [wl[r] / wl[c], wm[r] / wm[c], wm2[r] / wm2[c], wu[r] / wu[c]].sort((x, y) => x - y);
+      const tri = withPlateau(l, m, m2, u, trapezoidal);
+      completed[r][c] = { tri, isInverse: false, saatyValue: m, isEstimated: true };
+      completed[c][r] = { tri: fuzzyInverse(tri), isInverse: true, saatyValue: 1 / m, isEstimated: true };
+    }
+  }
+  return completed;
+};
+
+const completeMatrices = (matrices: HierarchyMatrices, method: CompletionMethod): HierarchyMatrices => ({
+  critMatrices: mapMatrices(matrices.critMatrices, mat => completeMatrix(mat, method)),
+  altMatrices: mapMatrices(matrices.altMatrices, mat => completeMatrix(mat, method)),
+});
+
+// --- Crisp AHP ---
+
+// Crisp Saaty matrix from the stored scale values (lower triangle already holds 1/x)
+const saatyMatrix = (matrix: MatrixCell[][]): number[][] =>
+  matrix.map((row, r) => row.map((cell, c) => r === c ? 1 : cell.saatyValue || 1));
+
+const crispAhp = (matrix: MatrixCell[][]): CrispAhpResult => {
+  const n = matrix.length;
+  const { vector, lambdaMax } = principalEigen(saatyMatrix(matrix));
+  const ci = consistencyIndex(lambdaMax, n);
+  const ri = getRandomIndex(SAATY_RI, n);
+  return { weights: vector, lambdaMax, ci, cr: ri !== 0 ? ci / ri : 0 };
+};
+
+// Crisp counterpart of a rated leaf: the modal values of the scores, normalized
+const crispRating = (scores: TriangularNumber[]): CrispAhpResult =>
+  ({ weights: normalizeWeights(scores.map(t => t.m)), lambdaMax: scores.length, ci: 0, cr: 0 });
+
+// --- Fuzzy TOPSIS ---
+
+const TOPSIS_WEIGHT_SOURCES: Array<{ id: TopsisWeightSource; label: string }> = [
+  { id: 'fuzzy', label: "Нечіткі ваги критеріїв FAHP (W̃)" },
+  { id: 'crisp', label: "Чіткі ваги критеріїв FAHP (N)" },
+];
+
+const blankTopsisCriterion = (numAlternatives: number): TopsisCriterion =>
+  ({ ratings: Array(numAlternatives).fill(DEFAULT_RATING_TERM), direction: 'benefit' });
+
+// Starting column for a leaf the user already rated: the same terms, or direct values
+// spread evenly over the scale from the smallest (VP) to the largest (VG), direction kept
+const topsisCriterionFromRating = (rating: AltRating): TopsisCriterion => {
+  if (rating.mode === 'linguistic') return { ratings: [...rating.ratings], direction: 'benefit' };
+  const known = rating.values.filter(isFiniteNumber);
+  const min = Math.min(...known);
+  const max = Math.max(...known);
+  const ratings = rating.values.map(v => !isFiniteNumber(v) || max === min
+    ? DEFAULT_RATING_TERM
+    : RATING_TERMS[Math.round((v - min) / (max - min) * (RATING_TERMS.length - 1))].id);
+  return { ratings, direction: rating.direction };
+};
+
+// Vertex distance √(Σ (a_k − b_k)² / k) over the l, m, u (and m2) components
+const vertexDistance = (a: TriangularNumber, b: TriangularNumber): number => {
+  const trapezoidal = isTrapezoidal(a) || isTrapezoidal(b);
+  const components = (t: TriangularNumber) => trapezoidal ? [t.l, t.m, modalEnd(t), t.u] : [t.l, t.m, t.u];
+  const cb = components(b);
+  const ca = components(a);
+  return Math.sqrt(ca.reduce((acc, v, k) => acc + Math.pow(v - cb[k], 2), 0) / ca.length);
+};
+
+// Chen (2000): benefit ratings divided by max u, cost ratings as min l / x, then weighted by the criteria weights.
+// FPIS and FNIS take the largest u and smallest l of each weighted column (Chen, Lin & Huang 2006).
+const fuzzyTopsis = (columns: TopsisCriterion[], weights: TriangularNumber[]): TopsisResult => {
+  const singleton = (v: number): TriangularNumber => ({ l: v, m: v, u: v });
+  const normalized = columns.map(({ ratings, direction }) => {
+    const tris = ratings.map(id => ratingTerm(id).tri);
+    if (direction === 'benefit') {
+      const best = Math.max(...tris.map(t => t.u));
+      return tris.map(t => fuzzyMultiply(t, singleton(1 / best)));
+    }
+    const best = Math.min(...tris.map(t => t.l));
+    return tris.map(t => fuzzyMultiply(singleton(best), fuzzyInverse(t)));
+  });
+  const weighted = normalized.map((col, j) => col.map(r => fuzzyMultiply(r, weights[j])));
+  const positiveIdeal = weighted.map(col => singleton(Math.max(...col.map(v => v.u))));
+  const negativeIdeal = weighted.map(col => singleton(Math.min(...col.map(v => v.l))));
+  const numAlts = columns[0]?.ratings.length ?? 0;
+  const distance = (ideal: TriangularNumber[], altIdx: number) => weighted.reduce((acc, col, j) => acc + vertexDistance(col[altIdx], ideal[j]), 0);
+  const distPositive = Array.from({ length: numAlts }, (_, i) => distance(positiveIdeal, i));
+  const distNegative = Array.from({ length: numAlts }, (_, i) => distance(negativeIdeal, i));
+  const closeness = distPositive.map((dp, i) => dp + distNegative[i] > 0 ? distNegative[i] / (dp + distNegative[i]) : 0);
+  return { normalized, weighted, positiveIdeal, negativeIdeal, distPositive, distNegative, closeness };
+};
+
+// --- Inconsistency Repair ---
+
+// Dropdown options of a scale: the terms themselves followed by their inverses (skipping 1)
+const getTermOptions = (terms: LinguisticTerm[]): TermOption[] => {
+  const sortedTerms = [...terms].sort((a, b) => a.value - b.value);
+  const opts: TermOption[] = [];
+
+  // 1. Standard Terms
+  sortedTerms.forEach(t => opts.push({ value: t.value, label: t.shortName, tri: t.tri }));
+
+  // 2. Inverse Terms (skip 1)
+  sortedTerms.filter(t => t.value > 1).forEach(t => {
+      opts.push({ value: 1 / t.value, label: `Inverse ${t.shortName}`, tri: fuzzyInverse(t.tri) });
+  });
+  return opts;
+};
+
+const setReciprocalJudgment = (matrix: MatrixCell[][], r: number, c: number, val: number, terms: LinguisticTerm[]): MatrixCell[][] => {
+  if (val === MISSING_JUDGMENT) {
+    const newMat = matrix.map(row => [...row]);
+    newMat[r][c] = { tri: T_ONE, isInverse: false, isMissing: true };
+    newMat[c][r] = { tri: T_ONE, isInverse: true, isMissing: true };
+    return newMat;
+  }
+  const newMat = matrix.map(row => [...row]);
+  newMat[r][c] = termCell(val, terms);
+  newMat[c][r] = reciprocalCell(newMat[r][c]);
+  return newMat;
+};
+
+// Ranks upper-triangle judgments by how far a_ij is from the ratio w_i / w_j implied by the whole matrix
+const findInconsistentJudgments = (matrix: MatrixCell[][], terms: LinguisticTerm[], defuzzify: Defuzzify = centerOfArea, limit = 3): RepairSuggestion[] => {
+  const n = matrix.length;
+  const crisp = matrix.map(row => row.map(c => defuzzify(c.tri)));
+  const { vector: w } = principalEigen(crisp);
+  const options = getTermOptions(terms);
+  const suggestions: RepairSuggestion[] = [];
+
+  // Estimated cells are filled in from the known judgments, so there is nothing for the expert to revise there
+  for (let r = 0; r < n; r++) {
+    for (let c = r + 1; c < n; c++) {
+      if (matrix[r][c].isEstimated || w[r] <= 0 || w[c] <= 0 || crisp[r][c] <= 0) continue;
+      const implied = w[r] / w[c];
+      const deviation = Math.abs(Math.log(crisp[r][c] / implied));
+
+      // Nearest term on a logarithmic scale, so 1/3 and 3 are equally far from 1
+      const nearest = options.reduce((best, opt) => {
+        const dist = Math.abs(Math.log(defuzzify(opt.tri) / implied));
+        return dist < best.dist ? { opt, dist } : best;
+      }, { opt: options[0], dist: Infinity }).opt;
+      if (!nearest || Math.abs(nearest.value - (matrix[r][c].saatyValue || 1)) < 0.0001) continue;
+
+      suggestions.push({
+        r, c,
+        current: crisp[r][c],
+        implied,
+        deviation,
+        suggestedValue: nearest.value,
+        suggestedLabel: nearest.label,
+        crAfter: computeConsistency(setReciprocalJudgment(matrix, r, c, nearest.value, terms), defuzzify).cr,
+      });
+    }
+  }
+  return suggestions.sort((a, b) => b.deviation - a.deviation).slice(0, limit);
+};
+
+// --- Constants & Initial Data ---
+
+const DEFAULT_TERMS: LinguisticTerm[] = [
+  { id: "1", name: "Equally important", shortName: "EI", value: 1, tri: { l: 1, m: 1, u: 1 } },
+  { id: "2", name: "Intermediate value", shortName: "IV13", value: 2, tri: { l: 1, m: 2, u: 3 } },
+  { id: "3", name: "Weakly important", shortName: "WI", value: 3, tri: { l: 2, m: 3, u: 4 } },
+  { id: "4", name: "Intermediate value", shortName: "IV35", value: 4, tri: { l: 3, m: 4, u: 5 } },
+  { id: "5", name: "Fairly important", shortName: "FI", value: 5, tri: { l: 4, m: 5, u: 6 } },
+  { id: "6", name: "Intermediate value", shortName: "IV57", value: 6, tri: { l: 5, m: 6, u: 7 } },
+  { id: "7", name: "Strongly important", shortName: "SI", value: 7, tri: { l: 6, m: 7, u: 8 } },
+  { id: "8", name: "Intermediate value", shortName: "IV79", value: 8, tri: { l: 7, m: 8, u: 9 } },
+  { id: "9", name: "Absolutely important", shortName: "AI", value: 9, tri: { l: 9, m: 9, u: 9 } },
+];
+
+// Saaty's 1–9 scale fuzzified as (x - spread, x, x + spread), clipped to [1, 9]; the top term is given explicitly
+const spreadScale = (spread: number, absolute: TriangularNumber): LinguisticTerm[] =>
+  DEFAULT_TERMS.map(t => ({
+    ...t,
+    tri: t.value === 1 ? T_ONE : t.value === 9 ? absolute : { l: Math.max(1, t.value - spread), m: t.value, u: Math.min(9, t.value + spread) },
+  }));
+
+const SCALE_PRESETS: ScalePreset[] = [
+  {
+    id: 'saaty-1',
+    name: "1–9, розмах 1, AI = (9, 9, 9)",
+    citation: "Saaty T.L. (1980). The Analytic Hierarchy Process. McGraw-Hill; van Laarhoven P.J.M., Pedrycz W. (1983). A fuzzy extension of Saaty's priority theory. Fuzzy Sets and Systems, 11(1–3), 229–241.",
+    terms: DEFAULT_TERMS,
+  },
+  {
+    id: 'saaty-1-open',
+    name: "1–9, розмах 1, AI = (8, 9, 9)",
+    citation: "Zhü K. (2014). Fuzzy analytic hierarchy process: Fallacy of the popular methods. European Journal of Operational Research, 236(1), 209–217.",
+    terms: spreadScale(1, { l: 8, m: 9, u: 9 }),
+  },
+  {
+    id: 'saaty-2',
+    name: "1–9, розмах 2",
+    citation: "Власна побудова (x − 2, x, x + 2), обмежена діапазоном 1–9, AI = (7, 9, 9); симетричний розмах нечітких суджень — за Mikhailov L. (2003). Deriving priorities from fuzzy pairwise comparison judgements. Fuzzy Sets and Systems, 134(3), 365–385.",
+    terms: spreadScale(2, { l: 7, m: 9, u: 9 }),
+  },
+  {
+    id: 'compact-5',
+    name: "Компактна 5-рівнева (1, 3, 5, 7, 9), похідна від «розмах 2»",
+    citation: "Похідна від шаблону «1–9, розмах 2»: ті самі нечіткі числа лише для основних рівнів 1, 3, 5, 7, 9 шкали Saaty T.L. (1980). The Analytic Hierarchy Process. McGraw-Hill.",
+    terms: spreadScale(2, { l: 7, m: 9, u: 9 }).filter(t => t.value % 2 === 1),
+  },
+  {
+    id: 'chang',
+    name: "Шкала Чанга (extent analysis)",
+    citation: "Chang D.-Y. (1996). Applications of the extent analysis method on fuzzy AHP. European Journal of Operational Research, 95(3), 649–655; Kahraman C., Cebeci U., Ulukan Z. (2003). Multi-criteria supplier selection using fuzzy AHP. Logistics Information Management, 16(6), 382–394.",
+    terms: [
+      { id: "1", name: "Equally important", shortName: "EI", value: 1, tri: { l: 1 / 2, m: 1, u: 3 / 2 } },
+      { id: "3", name: "Weakly more important", shortName: "WMI", value: 3, tri: { l: 1, m: 3 / 2, u: 2 } },
+      { id: "5", name: "Strongly more important", shortName: "SMI", value: 5, tri: { l: 3 / 2, m: 2, u: 5 / 2 } },
+      { id: "7", name: "Very strongly more important", shortName: "VSMI", value: 7, tri: { l: 2, m: 5 / 2, u: 3 } },
+      { id: "9", name: "Absolutely more important", shortName: "AMI", value: 9, tri: { l: 5 / 2, m: 3, u: 7 / 2 } },
+    ],
+  },
+];
+
+// Loaded terms take over the ids of current terms with the same Saaty value, so existing judgments follow them
+const remapTermIds = (next: LinguisticTerm[], current: LinguisticTerm[]): LinguisticTerm[] =>
+  next.map(t => ({ ...t, id: current.find(c => c.value === t.value)?.id ?? crypto.randomUUID() }));
+
+const INITIAL_CRITERIA_NAMES = [
+  "C1 (cargo support)",
+  "C2 (cargo insurance)",
+  "C3 (vehicle monitoring)",
+  "C4 (cargo safety)",
+  "C5 (timeliness of delivery)",
+];
+const INITIAL_CRITERIA_IDS = ["c1", "c2", "c3", "c4", "c5"];
+
+const getInitialHierarchy = (): CriterionNode => ({
+  id: GOAL_ID,
+  name: "Вибір логістичного партнера",
+  children: INITIAL_CRITERIA_NAMES.map((name, i) => ({ id: INITIAL_CRITERIA_IDS[i], name, children: [] })),
+});
+const INITIAL_ALT_NAMES = [
+  "A1 (Company A)",
+  "A2 (Company B)",
+  "A3 (Company C)",
+];
+
+// Initial Data Generation
+const getTriForValue = (val: number, terms: LinguisticTerm[]): TriangularNumber => {
+  if (val >= 1) {
+    const t = terms.find(t => t.value === val);
+    return t ? t.tri : T_ONE;
+  } else {
+    // Inverse
+    const baseVal = Math.round(1/val);
+    const t = terms.find(t => t.value === baseVal);
+    return t ? fuzzyInverse(t.tri) : T_ONE;
+  }
+};
+
+const getInitialMatrix = (size: number, terms: LinguisticTerm[], initialData: Record<string, number> = {}) => {
+    const matrix: MatrixCell[][] = Array(size).fill(0).map(() => Array(size).fill(null).map(() => ({ tri: T_ONE, isInverse: false, saatyValue: 1 })));
+
+    for (let r = 0; r < size; r++) {
+      for (let c = 0; c < size; c++) {
+        if (r === c) continue;
+        
+        // Pre-defined data for the upper triangle, "equally important" otherwise
+        if (r < c) {
+            matrix[r][c] = termCell(initialData[`${r}-${c}`] || 1, terms);
+        } else {
+            // Lower triangle is inverse of upper
+            matrix[r][c] = reciprocalCell(matrix[c][r]);
+        }
+      }
+    }
+    return matrix;
+};
+
+// Judgment for Saaty value val (1/x picks the inverse of term x), linked to that term of the scale
+const termCell = (val: number, terms: LinguisticTerm[]): MatrixCell => {
+    const inverse = val < 1;
+    const term = terms.find(t => t.value === (inverse ? Math.round(1 / val) : val));
+    return { tri: getTriForValue(val, terms), isInverse: inverse, saatyValue: val, ...(term && { term: { id: term.id, inverse } }) };
+};
+
+// Lower-triangle mirror of an upper-triangle judgment
+const reciprocalCell = (cell: MatrixCell): MatrixCell => ({
+    tri: fuzzyInverse(cell.tri),
+    isInverse: true,
+    saatyValue: 1 / (cell.saatyValue || 1),
+    ...(cell.term && { term: { id: cell.term.id, inverse: !cell.term.inverse } }),
+});
+
+// Adds a row and column of "equally important" judgments for a new item
+const addMatrixItem = (matrix: MatrixCell[][], terms: LinguisticTerm[]): MatrixCell[][] => {
+    const size = matrix.length;
+    const equal = termCell(1, terms);
+    const newRow = [...Array(size).fill(null).map(() => reciprocalCell(equal)), { tri: T_ONE, isInverse: false, saatyValue: 1 }];
+    const newMat = matrix.map(row => [...row, equal]);
+    newMat.push(newRow);
+    return newMat;
+};
+
+const removeMatrixItem = (matrix: MatrixCell[][], index: number): MatrixCell[][] =>
+    matrix.filter((_, r) => r !== index).map(row => row.filter((_, c) => c !== index));
+
+// Re-reads every linked judgment from the scale; replacements maps removed term ids to their substitutes
+const resolveMatrix = (matrix: MatrixCell[][], terms: LinguisticTerm[], replacements: Record<string, string> = {}): MatrixCell[][] =>
+    matrix.map(row => row.map(cell => {
+        if (!cell.term) return cell;
+        const id = replacements[cell.term.id] ?? cell.term.id;
+        const term = terms.find(t => t.id === id);
+        if (!term) return cell;
+        const { inverse } = cell.term;
+        return { ...cell, tri: inverse ? fuzzyInverse(term.tri) : term.tri, saatyValue: inverse ? 1 / term.value : term.value, term: { id, inverse } };
+    }));
+
+// Upper-triangle judgments per referenced term id
+const countTermUsage = (matrices: MatrixCell[][][]): Record<string, number> => {
+    const usage: Record<string, number> = {};
+    matrices.forEach(matrix => matrix.forEach((row, r) => row.forEach((cell, c) => {
+        if (r < c && cell.term) usage[cell.term.id] = (usage[cell.term.id] ?? 0) + 1;
+    })));
+    return usage;
+};
+
+// Initial Data Maps
+const initialCritValues = {
+    "0-1": 3, "0-2": 4, "0-3": 1, "0-4": 1/2,
+    "1-2": 2, "1-3": 1/3, "1-4": 1,
+    "2-3": 1/5, "2-4": 1/3,
+    "3-4": 1/2,
+};
+
+const initialAlt1Values = { "0-1": 2, "0-2": 4, "1-2": 3 };
+const initialAlt2Values = { "0-1": 1/3, "0-2": 1/5, "1-2": 1/3 };
+const initialAlt3Values = { "0-1": 1/3, "0-2": 2, "1-2": 3 };
+const initialAlt4Values = { "0-1": 1, "0-2": 2, "1-2": 2 };
+const initialAlt5Values = { "0-1": 2, "0-2": 1/3, "1-2": 1/4 };
+
+
+const getInitialCritMatrixState = () => getInitialMatrix(5, DEFAULT_TERMS, initialCritValues);
+
+const getInitialAltMatricesState = () => [
+    getInitialMatrix(3, DEFAULT_TERMS, initialAlt1Values),
+    getInitialMatrix(3, DEFAULT_TERMS, initialAlt2Values),
+    getInitialMatrix(3, DEFAULT_TERMS, initialAlt3Values),
+    getInitialMatrix(3, DEFAULT_TERMS, initialAlt4Values),
+    getInitialMatrix(3, DEFAULT_TERMS, initialAlt5Values),
+];
+
+const createExpert = (name: string, matrices: HierarchyMatrices): Expert => ({
+    id: crypto.randomUUID(),
+    name,
+    weight: 1,
+    ...matrices,
+});
+
+// Equal judgments everywhere, sized to the current hierarchy
+const getBlankMatrices = (hierarchy: CriterionNode, numAlternatives: number, termsFor: (matrixKey: string) => LinguisticTerm[]): HierarchyMatrices => ({
+    critMatrices: Object.fromEntries(getInternalNodes(hierarchy).map(node => [node.id, getInitialMatrix(node.children.length, termsFor(critMatrixKey(node.id)))])),
+    altMatrices: Object.fromEntries(getLeaves(hierarchy).map(leaf => [leaf.id, getInitialMatrix(numAlternatives, termsFor(altMatrixKey(leaf.id)))])),
+});
+
+const getInitialExpertsState = () => {
+    const altMatrices = getInitialAltMatricesState();
+    return [createExpert("Експерт 1", {
+        critMatrices: { [GOAL_ID]: getInitialCritMatrixState() },
+        altMatrices: Object.fromEntries(INITIAL_CRITERIA_IDS.map((id, i) => [id, altMatrices[i]])),
+    })];
+};
+
+// --- Term Scales ---
+
+const DEFAULT_SCALE: TermScale = { id: "default", name: "Основна шкала", terms: DEFAULT_TERMS };
+
+const critMatrixKey = (nodeId: string) => `crit:${nodeId}`;
+const altMatrixKey = (leafId: string) => `alt:${leafId}`;
+
+const scaleForMatrix = (scales: TermScale[], matrixScales: Record<string, string>, key: string): TermScale =>
+  scales.find(s => s.id === matrixScales[key]) ?? scales[0];
+
+// Moves every judgment onto another scale by Saaty value; a value the scale lacks goes to the nearest term
+const rescaleMatrix = (matrix: MatrixCell[][], terms: LinguisticTerm[]): MatrixCell[][] => {
+  let result = matrix;
+  matrix.forEach((row, r) => row.forEach((cell, c) => {
+    if (c <= r || cell.isMissing) return;
+    const value = cell.saatyValue || 1;
+    const term = findTermForValue(value < 1 ? 1 / value : value, terms);
+    result = setReciprocalJudgment(result, r, c, value < 1 ? 1 / term.value : term.value, terms);
+  }));
+  return result;
+};
+
+// Keeps the assignments of matrices that still exist; a leaf split into sub-criteria hands its alternatives scale to the new leaves
+const syncMatrixScales = (root: CriterionNode, matrixScales: Record<string, string>): Record<string, string> => {
+  const next: Record<string, string> = {};
+  getInternalNodes(root).forEach(node => {
+    const scaleId = matrixScales[critMatrixKey(node.id)];
+    if (scaleId) next[critMatrixKey(node.id)] = scaleId;
+  });
+  getLeaves(root).forEach(leaf => {
+    const parent = findParent(root, leaf.id);
+    const scaleId = matrixScales[altMatrixKey(leaf.id)] ?? (parent ? matrixScales[altMatrixKey(parent.id)] : undefined);
+    if (scaleId) next[altMatrixKey(leaf.id)] = scaleId;
+  });
+  return next;
+};
+
+// --- Project Files ---
+
+const PROJECT_FORMAT = "fuzzy-ahp-project";
+const PROJECT_VERSION = 5;
+
+// Upgrades a parsed file from version v to v + 1; add an entry whenever PROJECT_VERSION is bumped
+const PROJECT_MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  // v2 allows null (not compared) judgments; every v1 file is already valid
+  1: (data) => ({ ...data, version: 2 }),
+  // v3 replaces the single term scale with named scales chosen per matrix
+  2: ({ terms, ...data }) => ({ ...data, version: 3, scales: [{ ...DEFAULT_SCALE, terms }], matrixScales: {} }),
+  // v4 lets a leaf rate its alternatives directly instead of comparing them
+  3: (data) => ({ ...data, version: 4, altRatings: {} }),
+  // v5 adds the fuzzy TOPSIS decision matrix
+  4: (data) => ({ ...data, version: 5, topsis: {} }),
+};
+
+const DEFAULT_SETTINGS: ModelSettings = {
+  weightingMethod: 'buckley',
+  defuzzMethod: 'coa',
+  defuzzOptimism: 0.5,
+  aggregationMode: 'crisp',
+  fuzzyRankingMethod: 'possibility',
+  groupAggregation: 'wgm',
+  completionMethod: 'harker',
+  topsisWeights: 'fuzzy',
+};
+
+// Cells reference terms by Saaty value; a value missing from the scale falls back to the nearest term
+const findTermForValue = (value: number, terms: LinguisticTerm[]): LinguisticTerm =>
+  terms.reduce((best, t) => Math.abs(Math.log(t.value / value)) < Math.abs(Math.log(best.value / value)) ? t : best, terms[0]);
+
+const encodeMatrix = (matrix: MatrixCell[][], terms: LinguisticTerm[]): ProjectJudgment[][] =>
+  matrix.map((row, r) => row.slice(r + 1).map(cell => {
+    if (cell.isMissing) return null;
+    if (cell.term && terms.some(t => t.id === cell.term!.id)) return { term: cell.term.id, inverse: cell.term.inverse };
+    const value = cell.saatyValue || 1;
+    const inverse = value < 1;
+    return { term: findTermForValue(inverse ? 1 / value : value, terms).id, inverse };
+  }));
+
+const serializeProject = (project: Project): ProjectFile => {
+  const termsFor = (key: string) => scaleForMatrix(project.scales, project.matrixScales, key).terms;
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    scales: project.scales,
+    matrixScales: project.matrixScales,
+    hierarchy: project.hierarchy,
+    alternatives: project.altNames,
+    experts: project.experts.map(e => ({
+      id: e.id,
+      name: e.name,
+      weight: e.weight,
+      critMatrices: Object.fromEntries(Object.entries(e.critMatrices).map(([id, mat]) => [id, encodeMatrix(mat, termsFor(critMatrixKey(id)))])),
+      altMatrices: Object.fromEntries(Object.entries(e.altMatrices).map(([id, mat]) => [id, encodeMatrix(mat, termsFor(altMatrixKey(id)))])),
+    })),
+    altRatings: project.altRatings,
+    topsis: project.topsis,
+    settings: project.settings,
+  };
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking right after click() can cancel the download before the browser has started it
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const isFiniteNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+const isOptionId = <T extends string,>(options: ReadonlyArray<{ id: T }>, v: unknown): v is T => options.some(o => o.id === v);
+
+const validateTerms = (terms: unknown): LinguisticTerm[] => {
+  if (!Array.isArray(terms) || terms.length < 2) throw new Error("Шкала термів має містити щонайменше 2 терми.");
+  const ids = new Set<string>();
+  const values = new Set<number>();
+  const validated = terms.map((t: unknown, i: number): LinguisticTerm => {
+    const where = `Терм ${i + 1}`;
+    if (!isRecord(t) || typeof t.id !== 'string' || typeof t.name !== 'string' || typeof t.shortName !== 'string') throw new Error(`${where}: відсутні id, name або shortName.`);
+    if (!isFiniteNumber(t.value) || t.value < 1) throw new Error(`${where} (${t.shortName}): значення має бути числом ≥ 1.`);
+    const tri = t.tri;
+    if (!isRecord(tri) || !isFiniteNumber(tri.l) || !isFiniteNumber(tri.m) || !isFiniteNumber(tri.u) || tri.l <= 0) throw new Error(`${where} (${t.shortName}): некоректне нечітке число (l, m, u).`);
+    if (tri.l > tri.m || tri.m > tri.u) throw new Error(`${where} (${t.shortName}): потрібно l ≤ m ≤ u.`);
+    if (tri.m2 !== undefined && (!isFiniteNumber(tri.m2) || tri.m2 < tri.m || tri.m2 > tri.u)) throw new Error(`${where} (${t.shortName}): для трапеції потрібно m ≤ m2 ≤ u.`);
+    if (ids.has(t.id) || values.has(t.value)) throw new Error(`${where} (${t.shortName}): дублікат id або значення.`);
+    ids.add(t.id);
+    values.add(t.value);
+    return { id: t.id, name: t.name, shortName: t.shortName, value: t.value, tri: withPlateau(tri.l, tri.m, isFiniteNumber(tri.m2) ? tri.m2 : tri.m, tri.u, tri.m2 !== undefined) };
+  });
+  if (!validated.some(t => t.value === 1)) throw new Error("Шкала термів має містити терм зі значенням 1 (рівна важливість).");
+  return validated;
+};
+
+const SCALE_FORMAT = "fuzzy-ahp-scale";
+const SCALE_VERSION = 1;
+
+const serializeScale = (name: string, terms: LinguisticTerm[]): ScaleFile => ({ format: SCALE_FORMAT, version: SCALE_VERSION, name, terms });
+
+const parseScaleFile = (text: string): ScaleFile => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Файл не є коректним JSON.");
+  }
+  if (!isRecord(data) || data.format !== SCALE_FORMAT) throw new Error("Це не файл шкали Fuzzy AHP.");
+  if (data.version !== SCALE_VERSION) throw new Error(`Непідтримувана версія формату шкали (v${String(data.version)}).`);
+  return serializeScale(typeof data.name === 'string' ? data.name : '', validateTerms(data.terms));
+};
+
+const validateScales = (scales: unknown): TermScale[] => {
+  if (!Array.isArray(scales) || scales.length < 1) throw new Error("Проєкт має містити щонайменше одну шкалу термів.");
+  const ids = new Set<string>();
+  return scales.map((s: unknown, i: number) => {
+    if (!isRecord(s) || typeof s.id !== 'string' || typeof s.name !== 'string') throw new Error(`Шкала ${i + 1}: відсутні id або name.`);
+    if (ids.has(s.id)) throw new Error(`Шкала ${i + 1}: дублікат id "${s.id}".`);
+    ids.add(s.id);
+    try {
+      return { id: s.id, name: s.name, terms: validateTerms(s.terms) };
+    } catch (err) {
+      throw new Error(`Шкала "${s.name}": ${err instanceof Error ? err.message : String(err)}`);
+    }
+  });
+};
+
+const validateHierarchy = (root: unknown): CriterionNode => {
+  const ids = new Set<string>();
+  const walk = (node: unknown, path: string): CriterionNode => {
+    if (!isRecord(node) || typeof node.id !== 'string' || typeof node.name !== 'string' || !Array.isArray(node.children)) throw new Error(`Ієрархія (${path}): вузол має містити id, name та children.`);
+    if (ids.has(node.id)) throw new Error(`Ієрархія: дублікат id вузла "${node.id}".`);
+    ids.add(node.id);
+    return { id: node.id, name: node.name, children: node.children.map((child: unknown, i: number) => walk(child, `${path}.${i + 1}`)) };
+  };
+  const hierarchy = walk(root, 'мета');
+  if (hierarchy.children.length < 2) throw new Error("Ієрархія: мета має містити щонайменше 2 критерії.");
+  return hierarchy;
+};
+
+const decodeMatrix = (rows: unknown, size: number, terms: LinguisticTerm[], where: string): MatrixCell[][] => {
+  if (!Array.isArray(rows) || rows.length !== size) throw new Error(`${where}: очікується ${size} рядків верхнього трикутника.`);
+  const judgments: Record<string, number> = {};
+  const missing: Array<[number, number]> = [];
+  rows.forEach((row: unknown, r: number) => {
+    if (!Array.isArray(row) || row.length !== size - r - 1) throw new Error(`${where}, рядок ${r + 1}: очікується ${size - r - 1} суджень.`);
+    row.forEach((j: unknown, k: number) => {
+      if (j === null) {
+        missing.push([r, r + k + 1]);
+        return;
+      }
+      const judgment = isRecord(j) ? j : {};
+      const term = terms.find(t => t.id === judgment.term);
+      if (!term) throw new Error(`${where}, комірка (${r + 1}, ${r + k + 2}): невідомий терм "${String(judgment.term)}".`);
+      judgments[`${r}-${r + k + 1}`] = judgment.inverse ? 1 / term.value : term.value;
+    });
+  });
+  return missing.reduce<MatrixCell[][]>((mat, [r, c]) => setReciprocalJudgment(mat, r, c, MISSING_JUDGMENT, terms), getInitialMatrix(size, terms, judgments));
+};
+
+const validateAltRatings = (altRatings: unknown, hierarchy: CriterionNode, numAlternatives: number): Record<string, AltRating> => {
+  if (altRatings === undefined) return {};
+  if (!isRecord(altRatings)) throw new Error("Оцінки альтернатив мають бути об'єктом.");
+  return Object.fromEntries(getLeaves(hierarchy).filter(leaf => altRatings[leaf.id] !== undefined).map(leaf => {
+    const entry = altRatings[leaf.id];
+    const r: Record<string, unknown> = isRecord(entry) ? entry : {};
+    const where = `Оцінки альтернатив за критерієм "${leaf.name}"`;
+    const items = r.mode === 'direct' ? r.values : r.mode === 'linguistic' ? r.ratings : undefined;
+    if (!Array.isArray(items) || items.length !== numAlternatives) throw new Error(`${where}: очікується ${numAlternatives} оцінок.`);
+    const rating: AltRating | null = r.mode === 'linguistic'
+      ? { mode: 'linguistic', ratings: items }
+      : isOptionId(CRITERION_DIRECTIONS, r.direction) && isOptionId(VALUE_NORMALIZATIONS, r.normalization)
+        ? { mode: 'direct', values: items, direction: r.direction, normalization: r.normalization }
+        : null;
+    if (!rating) throw new Error(`${where}: невідомий напрям або спосіб нормалізації.`);
+    const error = ratingError(rating);
+    if (error) throw new Error(`${where}: ${error}`);
+    return [leaf.id, rating];
+  }));
+};
+
+const validateTopsis = (topsis: unknown, hierarchy: CriterionNode, numAlternatives: number): Record<string, TopsisCriterion> => {
+  if (topsis === undefined) return {};
+  if (!isRecord(topsis)) throw new Error("Матриця рішень TOPSIS має бути об'єктом.");
+  return Object.fromEntries(getLeaves(hierarchy).filter(leaf => topsis[leaf.id] !== undefined).map(leaf => {
+    const column = topsis[leaf.id];
+    const { ratings, direction } = isRecord(column) ? column : {};
+    const where = `TOPSIS, критерій "${leaf.name}"`;
+    if (!Array.isArray(ratings) || ratings.length !== numAlternatives) throw new Error(`${where}: очікується ${numAlternatives} оцінок.`);
+    if (!ratings.every(id => isOptionId(RATING_TERMS, id))) throw new Error(`${where}: невідома лінгвістична оцінка.`);
+    if (!isOptionId(CRITERION_DIRECTIONS, direction)) throw new Error(`${where}: невідомий напрям критерію.`);
+    return [leaf.id, { ratings, direction }];
+  }));
+};
+
+const validateSettings = (settings: unknown): ModelSettings => {
+  const values = isRecord(settings) ? settings : {};
+  const pick = <T,>(key: keyof ModelSettings, allowed: readonly T[]): T => {
+    const value = values[key];
+    if (value === undefined) return DEFAULT_SETTINGS[key] as T;
+    const match = allowed.find(a => a === value);
+    if (match === undefined) throw new Error(`Налаштування "${key}": невідоме значення "${String(value)}".`);
+    return match;
+  };
+  const optimism = values.defuzzOptimism ?? DEFAULT_SETTINGS.defuzzOptimism;
+  if (!isFiniteNumber(optimism) || optimism < 0 || optimism > 1) throw new Error('Налаштування "defuzzOptimism": очікується число від 0 до 1.');
+  return {
+    weightingMethod: pick('weightingMethod', WEIGHTING_METHODS.map(m => m.id)),
+    defuzzMethod: pick('defuzzMethod', DEFUZZIFIERS.map(d => d.id)),
+    defuzzOptimism: optimism,
+    aggregationMode: pick('aggregationMode', ['crisp', 'fuzzy'] as const),
+    fuzzyRankingMethod: pick('fuzzyRankingMethod', FUZZY_RANKING_METHODS.map(m => m.id)),
+    groupAggregation: pick('groupAggregation', GROUP_AGGREGATIONS.map(a => a.id)),
+    completionMethod: pick('completionMethod', COMPLETION_METHODS.map(m => m.id)),
+    topsisWeights: pick('topsisWeights', TOPSIS_WEIGHT_SOURCES.map(w => w.id)),
+  };
+};
+
+// Parses, migrates and validates a project file; every failure is reported as an Error with a user-facing message
+const parseProjectFile = (text: string): Project => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("Файл не є коректним JSON.");
+  }
+  if (!isRecord(parsed) || parsed.format !== PROJECT_FORMAT) throw new Error("Це не файл проєкту Fuzzy AHP.");
+  const version = parsed.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) throw new Error("Відсутня або некоректна версія формату.");
+  if (version > PROJECT_VERSION) throw new Error(`Файл створено новішою версією програми (формат v${version}, підтримується до v${PROJECT_VERSION}).`);
+  let data = parsed;
+  for (let v = version; v < PROJECT_VERSION; v++) {
+    const migrate = PROJECT_MIGRATIONS[v];
+    if (!migrate) throw new Error(`Немає міграції формату з v${v} до v${v + 1}.`);
+    data = migrate(data);
+  }
+
+  const scales = validateScales(data.scales);
+  const hierarchy = validateHierarchy(data.hierarchy);
+  const assigned = data.matrixScales ?? {};
+  const isScaleAssignment = (v: unknown): v is Record<string, string> => isRecord(v) && Object.values(v).every(id => scales.some(s => s.id === id));
+  if (!isScaleAssignment(assigned)) throw new Error("Призначення шкал матрицям посилається на невідому шкалу.");
+  const matrixScales = syncMatrixScales(hierarchy, assigned);
+  const termsFor = (key: string) => scaleForMatrix(scales, matrixScales, key).terms;
+  const altNames = data.alternatives;
+  if (!Array.isArray(altNames) || altNames.length < 2 || !altNames.every((n: unknown): n is string => typeof n === 'string')) {
+    throw new Error("Потрібно щонайменше 2 альтернативи з текстовими назвами.");
+  }
+  const expertEntries = data.experts;
+  if (!Array.isArray(expertEntries) || expertEntries.length < 1) throw new Error("Проєкт має містити щонайменше одного експерта.");
+
+  const experts: Expert[] = expertEntries.map((e: unknown, i: number) => {
+    const where = `Експерт ${i + 1}`;
+    if (!isRecord(e) || typeof e.name !== 'string' || !isFiniteNumber(e.weight) || e.weight < 0) throw new Error(`${where}: потрібні назва та невід'ємна вага.`);
+    const critMatrices = isRecord(e.critMatrices) ? e.critMatrices : {};
+    const altMatrices = isRecord(e.altMatrices) ? e.altMatrices : {};
+    return {
+      id: typeof e.id === 'string' ? e.id : crypto.randomUUID(),
+      name: e.name,
+      weight: e.weight,
+      critMatrices: Object.fromEntries(getInternalNodes(hierarchy).map(node => [node.id,
+        decodeMatrix(critMatrices[node.id], node.children.length, termsFor(critMatrixKey(node.id)), `${where}, матриця "${node.name}"`)])),
+      altMatrices: Object.fromEntries(getLeaves(hierarchy).map(leaf => [leaf.id,
+        decodeMatrix(altMatrices[leaf.id], altNames.length, termsFor(altMatrixKey(leaf.id)), `${where}, альтернативи за критерієм "${leaf.name}"`)])),
+    };
+  });
+
+  return { scales, matrixScales, hierarchy, altNames, experts, altRatings: validateAltRatings(data.altRatings, hierarchy, altNames.length), topsis: validateTopsis(data.topsis, hierarchy, altNames.length), settings: validateSettings(data.settings) };
+};
+
+
+// --- Spreadsheet Import ---
+
+const approxEqual = (a: number, b: number, rel = 0.01) => Math.abs(a - b) <= rel * Math.max(Math.abs(a), Math.abs(b));
+
+const triApproxEqual = (a: TriangularNumber, b: TriangularNumber) =>
+  isTrapezoidal(a) === isTrapezoidal(b) && fuzzyComponents(a).every((v, i) => approxEqual(v, fuzzyComponents(b)[i]));
+
+// "3", "0.333", "0,5" or "1/3"
+const parseNumberCell = (raw: string): number | null => {
+  const text = raw.replace(',', '.');
+  const fraction = text.match(/^([\d.]+)\s*\/\s*([\d.]+)$/);
+  const value = fraction ? Number(fraction[1]) / Number(fraction[2]) : /^[\d.]+$/.test(text) ? Number(text) : NaN;
+  return Number.isFinite(value) && value > 0 ? value : null;
+};
+
+// Maps a Saaty number, a fraction, a term label ("WI", "Inverse FI") or an explicit "(l, m, u)" onto the term scale
+const parseJudgment = (raw: string, terms: LinguisticTerm[]): ImportedCell => {
+  const text = raw.trim();
+  if (text === '') return { raw, judgment: null, error: "Порожня комірка" };
+  if (text === '?') return { raw, judgment: { value: MISSING_JUDGMENT, tri: T_ONE } };
+
+  const options = getTermOptions(terms);
+  const byLabel = options.find(o => o.label.toLowerCase() === text.toLowerCase());
+  if (byLabel) return { raw, judgment: { value: byLabel.value, tri: byLabel.tri } };
+
+  const triple = text.match(/^\((.*)\)$/);
+  if (triple) {
+    const parts = triple[1].split(/[;,]/).map(p => parseNumberCell(p.trim()));
+    if ((parts.length !== 3 && parts.length !== 4) || parts.some(p => p === null)) return { raw, judgment: null, error: "Очікується (l, m, u) або (a, b, c, d)" };
+    const [l, m, m2, u] = parts.length === 4 ? parts as number[] : [parts[0], parts[1], parts[1], parts[2]] as number[];
+    const match = options.find(o => triApproxEqual(o.tri, withPlateau(l, m, m2, u, parts.length === 4)));
+    return match
+      ? { raw, judgment: { value: match.value, tri: match.tri } }
+      : { raw, judgment: null, error: "Нечітке число не відповідає жодному терму шкали" };
+  }
+
+  const value = parseNumberCell(text);
+  if (value === null) return { raw, judgment: null, error: "Невідоме значення" };
+  const match = options.find(o => approxEqual(o.value, value));
+  return match
+    ? { raw, judgment: { value: match.value, tri: match.tri } }
+    : { raw, judgment: null, error: `Значення ${formatNumber(value)} відсутнє у шкалі` };
+};
+
+// Splits CSV text on the most frequent of ",", ";" and tab; quotes and parentheses protect separators inside triples
+const parseCsv = (text: string): string[][] => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const bare = text.replace(/\([^)]*\)|"[^"]*"/g, '');
+  const delimiter = ['\t', ';', ','].reduce((best, d) => bare.split(d).length > bare.split(best).length ? d : best, ',');
+
+  return lines.map(line => {
+    const cells: string[] = [];
+    let cell = '';
+    let depth = 0;
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+      const ch = line[i];
+      if (ch === '"') {
+        if (quoted && line[i + 1] === '"') { cell += '"'; i++; } else quoted = !quoted;
+      } else if (!quoted && ch === '(') { depth++; cell += ch; }
+      else if (!quoted && ch === ')') { depth = Math.max(0, depth - 1); cell += ch; }
+      else if (!quoted && depth === 0 && ch === delimiter) { cells.push(cell.trim()); cell = ''; }
+      else cell += ch;
+    }
+    cells.push(cell.trim());
+    return cells;
+  });
+};
+
+// Worksheets as text grids; the spreadsheet library is only loaded when an XLSX file is opened
+const readXlsxGrids = async (data: ArrayBuffer): Promise<Array<{ name: string; grid: string[][] }>> => {
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(data);
+  return workbook.worksheets.map(sheet => {
+    const grid: string[][] = [];
+    for (let r = 1; r <= sheet.rowCount; r++) {
+      const row = sheet.getRow(r);
+      grid.push(Array.from({ length: sheet.columnCount }, (_, c) => {
+        const cell = row.getCell(c + 1);
+        return typeof cell.value === 'number' ? String(cell.value) : cell.text.trim();
+      }));
+    }
+    return { name: sheet.name, grid };
+  });
+};
+
+// Finds square matrices separated by blank rows. A block may start with a one-cell title row,
+// then an optional header row of item names, and may carry item names in its first column.
+const extractMatrices = (grid: string[][], sheetName: string, terms: LinguisticTerm[]): ImportedMatrix[] => {
+  const isJudgment = (text: string) => parseJudgment(text, terms).judgment !== null;
+  const blocks: string[][][] = [[]];
+  grid.forEach(row => {
+    const cells = [...row];
+    while (cells.length > 0 && cells[cells.length - 1] === '') cells.pop();
+    if (cells.length === 0) blocks.push([]);
+    else blocks[blocks.length - 1].push(cells);
+  });
+
+  const matrices: ImportedMatrix[] = [];
+  blocks.filter(b => b.length > 0).forEach((block, bIdx, all) => {
+    let rows = block;
+    let title = all.length > 1 ? `${sheetName} ${bIdx + 1}` : sheetName;
+    if (rows.length > 1 && rows[0].filter(c => c !== '').length === 1 && rows[1].filter(c => c !== '').length > 1) {
+      title = rows[0].find(c => c !== '')!;
+      rows = rows.slice(1);
+    }
+    const header = rows[0].every(c => !isJudgment(c)) ? rows[0] : null;
+    const data = header ? rows.slice(1) : rows;
+    const hasLabels = data.every(row => row[0] !== undefined && row[0] !== '' && !isJudgment(row[0]));
+    const n = data.length;
+    if (n < 2) return;
+    const offset = hasLabels ? 1 : 0;
+
+    matrices.push({
+      title,
+      items: Array.from({ length: n }, (_, i) => (hasLabels ? data[i][0] : header?.[i + (header.length > n ? 1 : 0)]) || `${i + 1}`),
+      cells: data.map(row => Array.from({ length: n }, (_, c) => parseJudgment(row[c + offset] ?? '', terms))),
+    });
+  });
+  return matrices;
+};
+
+// Builds the matrix from the upper triangle and reports what the lower triangle and diagonal disagree with
+const checkImportedMatrix = (imported: ImportedMatrix, terms: LinguisticTerm[]): ImportCheck => {
+  const n = imported.cells.length;
+  const upper: Record<string, number> = {};
+  const missing: Array<[number, number]> = [];
+  const invalid: Array<[number, number]> = [];
+  const nonReciprocal: Array<[number, number]> = [];
+  const conflicts: Array<[number, number]> = [];
+  // A "?" must be mirrored by another "?"
+  const isReciprocal = (a: number, b: number) => a === MISSING_JUDGMENT || b === MISSING_JUDGMENT ? a === b : approxEqual(a * b, 1);
+
+  imported.cells.forEach((row, r) => row.forEach((cell, c) => {
+    if (r < c) {
+      if (!cell.judgment) invalid.push([r, c]);
+      else if (cell.judgment.value === MISSING_JUDGMENT) missing.push([r, c]);
+      else upper[`${r}-${c}`] = cell.judgment.value;
+    } else if (cell.raw.trim() !== '') {
+      if (!cell.judgment) invalid.push([r, c]);
+      else if (r === c ? !approxEqual(cell.judgment.value, 1) : imported.cells[c][r].judgment && !isReciprocal(cell.judgment.value, imported.cells[c][r].judgment!.value)) {
+        nonReciprocal.push([r, c]);
+        if (r !== c) conflicts.push([c, r]);
+      }
+    }
+  }));
+
+  const matrix = missing.reduce<MatrixCell[][]>((mat, [r, c]) => setReciprocalJudgment(mat, r, c, MISSING_JUDGMENT, terms), getInitialMatrix(n, terms, upper));
+  return { matrix, invalid, nonReciprocal, conflicts };
+};
+
+// The checked matrix with the lower-triangle judgment kept for every conflicting pair the user chose it for
+const resolveImportedMatrix = (imported: ImportedMatrix, check: ImportCheck, keep: Record<string, TriangleChoice>, terms: LinguisticTerm[]): MatrixCell[][] => {
+  const options = getTermOptions(terms);
+  return check.conflicts.filter(([r, c]) => keep[`${r}-${c}`] === 'lower').reduce((mat, [r, c]) => {
+    const lower = imported.cells[c][r].judgment!.value;
+    const upper = lower === MISSING_JUDGMENT ? lower : options.find(o => approxEqual(o.value, 1 / lower))?.value ?? 1 / lower;
+    return setReciprocalJudgment(mat, r, c, upper, terms);
+  }, check.matrix);
+};
+
+
+// --- Spreadsheet Export ---
+
+// Table numbering follows the paper: five tables per pairwise matrix (matrix + Steps 2-5), criteria nodes first
+const matrixTableNumber = (matrixIdx: number) => 2 + 5 * matrixIdx;
+
+// A column gets the m2 component as soon as one number in it is trapezoidal
+const triColumns = (label: string, trapezoidal: boolean) =>
+  trapezoidal ? [`${label} l`, `${label} m`, `${label} m2`, `${label} u`] : [`${label} l`, `${label} m`, `${label} u`];
+const triCells = (t: TriangularNumber, trapezoidal: boolean): number[] => trapezoidal ? [t.l, t.m, modalEnd(t), t.u] : [t.l, t.m, t.u];
+
+type ExportContext = {
+  hierarchy: CriterionNode;
+  altNames: string[];
+  results: ModelResults;
+  consistency: { nodes: Record<string, ConsistencyResult>; alts: ConsistencyResult[] };
+  defuzzifier: Defuzzifier;
+  aggregationMode: AggregationMode;
+  fuzzyRankingMethod: FuzzyRankingMethod;
+};
+
+// Step tables of one matrix, mirroring the result components
+const derivationTables = (steps: WeightDerivation, names: string[], itemLabel: string, caption: string, tableNumber: number, sheetPrefix: string, defuzzifier: Defuzzifier): ExportTable[] => {
+  if (steps.method === 'chang') {
+    const trapezoidal = [...steps.rowSums, ...steps.extents].some(isTrapezoidal);
+    return [{
+      sheet: `${sheetPrefix} Chang`,
+      title: `Синтетичні протяжності та ступені можливості: ${caption}`,
+      header: [itemLabel, ...triColumns('Σj Mij', trapezoidal), ...triColumns('Si (Synthetic Extent)', trapezoidal), ...names.map((n, k) => `V(Si ≥ S${k + 1}) ${n}`), "d'(Ai) = min V", 'W (Normalized)'],
+      rows: names.map((name, i) => [name, ...triCells(steps.rowSums[i], trapezoidal), ...triCells(steps.extents[i], trapezoidal), ...names.map((_, k) => i === k ? '' : steps.possibility[i][k]), steps.minDegrees[i], steps.weights[i]]),
+    }];
+  }
+  if (steps.method === 'fpp') {
+    return [{
+      sheet: `${sheetPrefix} FPP`,
+      title: `Ваги FPP та індекс узгодженості λ: ${caption}`,
+      header: [itemLabel, 'w* (Crisp Weight)'],
+      rows: [...names.map((name, i) => [name, steps.weights[i]]), ['λ*', steps.lambda], ...(steps.widened > 0 ? [[fppWidenedNote(steps.widened), '']] : [])],
+    }];
+  }
+  if (steps.method === 'rating') {
+    const trapezoidal = [...steps.scores, ...steps.fuzzyWeights].some(isTrapezoidal);
+    return [{
+      sheet: `${sheetPrefix} Оцінки`,
+      title: `${RATING_MODES.find(m => m.id === steps.mode)?.label}: ${caption}`,
+      header: [itemLabel, ...triColumns('S (Score)', trapezoidal), ...triColumns('w (Fuzzy Weight)', trapezoidal), `M = ${defuzzifier.formulaLabel}`, 'N (Normalized)'],
+      rows: names.map((name, i) => [name, ...triCells(steps.scores[i], trapezoidal), ...triCells(steps.fuzzyWeights[i], trapezoidal), steps.defuzzified[i], steps.weights[i]]),
+    }];
+  }
+  const trapezoidal = [...steps.geoMeans, ...steps.fuzzyWeights].some(isTrapezoidal);
+  return [
+    {
+      sheet: `Таблиця ${tableNumber + 1}`,
+      title: `Таблиця ${tableNumber + 1}. Геометричне середнє нечітких порівнянь (r) — ${caption}`,
+      header: [itemLabel, ...triColumns('r (Geometric Mean)', trapezoidal)],
+      rows: [...names.map((name, i) => [name, ...triCells(steps.geoMeans[i], trapezoidal)]), ['Vector Sum (sr)', ...triCells(steps.sumGeo, trapezoidal)]],
+    },
+    {
+      sheet: `Таблиця ${tableNumber + 2}`,
+      title: `Таблиця ${tableNumber + 2}. Нечіткі ваги (w) — ${caption}`,
+      header: [itemLabel, ...triColumns('w (Fuzzy Weight)', trapezoidal)],
+      rows: [...names.map((name, i) => [name, ...triCells(steps.fuzzyWeights[i], trapezoidal)]), ['Inversion Vector (isr)', ...triCells(steps.invSum, trapezoidal)]],
+    },
+    {
+      sheet: `Таблиця ${tableNumber + 3}`,
+      title: `Таблиця ${tableNumber + 3}. Дефазифіковані ваги (M) — ${caption}`,
+      header: [itemLabel, `M = ${defuzzifier.formulaLabel}`],
+      rows: names.map((name, i) => [name, steps.defuzzified[i]]),
+    },
+    {
+      sheet: `Таблиця ${tableNumber + 4}`,
+      title: `Таблиця ${tableNumber + 4}. Нормалізовані ваги (N) — ${caption}`,
+      header: [itemLabel, 'N (Normalized)'],
+      rows: names.map((name, i) => [name, steps.weights[i]]),
+    },
+  ];
+};
+
+// Every table of the results tab at full precision, in the order shown
+const buildResultTables = (ctx: ExportContext): ExportTable[] => {
+  const { hierarchy, altNames, results, consistency, defuzzifier, aggregationMode, fuzzyRankingMethod } = ctx;
+  const internalNodes = getInternalNodes(hierarchy);
+  const leaves = getLeaves(hierarchy);
+  const combinedNumber = matrixTableNumber(internalNodes.length + leaves.length);
+  const trapezoidalScores = results.fuzzyGlobalScores.some(isTrapezoidal);
+
+  const tables: ExportTable[] = [
+    ...results.nodes.flatMap(({ node, derivation }, nIdx) =>
+      derivationTables(derivation, node.children.map(c => c.name), 'Критерій', nodeMatrixLabel(node), matrixTableNumber(nIdx), `К${nIdx + 1}`, defuzzifier)),
+    ...leaves.flatMap((leaf, cIdx) =>
+      derivationTables(results.alts[cIdx], altNames, 'Альтернатива', `Критерій: ${leaf.name}`, matrixTableNumber(internalNodes.length + cIdx), `А${cIdx + 1}`, defuzzifier)),
+    {
+      sheet: `Таблиця ${combinedNumber}`,
+      title: `Таблиця ${combinedNumber} & ${combinedNumber + 1}. Фінальні результати`,
+      header: ['Критерій', internalNodes.length > 1 ? 'Глобальні ваги N (ієрархія)' : `Ваги N (Таблиця ${matrixTableNumber(0) + 4})`, ...altNames],
+      rows: [
+        ...leaves.map((leaf, cIdx) => [leaf.name, results.critNormWeights[cIdx], ...results.altLocalWeights[cIdx]]),
+        [`Total Score (S) - Таблиця ${combinedNumber + 1}`, '', ...results.globalScores],
+      ],
+    },
+  ];
+
+  if (internalNodes.length > 1) {
+    const rows: ExportCell[][] = [];
+    const localWeights = Object.fromEntries(results.nodes.map(({ node, derivation }) => [node.id, derivation.weights]));
+    const walk = (node: CriterionNode, path: string, global: number) => node.children.forEach((child, i) => {
+      const local = localWeights[node.id][i];
+      rows.push([path ? `${path} / ${child.name}` : child.name, local, global * local]);
+      walk(child, path ? `${path} / ${child.name}` : child.name, global * local);
+    });
+    walk(hierarchy, '', 1);
+    tables.push({ sheet: 'Ієрархія', title: 'Ієрархія критеріїв: локальні та глобальні ваги', header: ['Критерій', 'Локальна вага', 'Глобальна вага'], rows });
+  }
+
+  if (aggregationMode === 'fuzzy') {
+    const indices = FUZZY_RANKING_METHODS.map(m => fuzzyRankingIndex(results.fuzzyGlobalScores, m.id));
+    tables.push({
+      sheet: 'Нечіткі оцінки',
+      title: 'Нечіткі глобальні оцінки (S = Σ Wj ⊗ wij)',
+      header: ['Альтернатива', ...triColumns('S (Fuzzy Score)', trapezoidalScores), ...FUZZY_RANKING_METHODS.map(m => m.label)],
+      rows: altNames.map((name, i) => [name, ...triCells(results.fuzzyGlobalScores[i], trapezoidalScores), ...indices.map(index => index[i])]),
+    });
+  }
+
+  tables.push({
+    sheet: 'Узгодженість',
+    title: 'Узгодженість матриць попарних порівнянь (CI / CR)',
+    header: ['Матриця', 'n', 'λmax', 'CI = (λmax - n) / (n - 1)', 'CR = CI / RI', 'CRm (Gogus–Boucher)', 'CRg (Gogus–Boucher)', 'Статус'],
+    rows: [
+      ...internalNodes.map(node => ({ name: nodeMatrixLabel(node), c: consistency.nodes[node.id] })),
+      ...leaves.map((leaf, cIdx) => ({ name: `Альтернативи: ${leaf.name}`, c: consistency.alts[cIdx] })),
+    ].map(({ name, c }) => [name, c.n, c.lambdaMax, c.ci, c.cr, c.crM, c.crG, c.isConsistent ? 'Узгоджена' : 'Неузгоджена']),
+  });
+
+  tables.push({
+    sheet: 'Ранжування',
+    title: 'Фінальне Ранжування',
+    header: ['Ранг', 'Альтернатива', ...(aggregationMode === 'fuzzy' ? triColumns('Нечітка оцінка (S)', trapezoidalScores) : []),
+      aggregationMode === 'fuzzy' ? FUZZY_RANKING_METHODS.find(m => m.id === fuzzyRankingMethod)?.label ?? '' : 'Глобальна Вага (Score)'],
+    rows: results.ranked.map((item, idx) => [idx + 1, item.name, ...(aggregationMode === 'fuzzy' ? triCells(item.fuzzyScore, trapezoidalScores) : []), item.score]),
+  });
+
+  return tables;
+};
+
+const tablesToCsv = (tables: ExportTable[]): string => {
+  const quote = (cell: ExportCell) => {
+    const text = String(cell);
+    return /[",\n;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return tables.map(t => [[t.title], t.header, ...t.rows].map(row => row.map(quote).join(',')).join('\n')).join('\n\n') + '\n';
+};
+
+// Sheet names are limited to 31 characters without []:*?/\ and must be unique
+const tablesToXlsx = async (tables: ExportTable[]): Promise<ArrayBuffer> => {
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  const used = new Set<string>();
+  tables.forEach(table => {
+    const base = table.sheet.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31);
+    let name = base;
+    for (let k = 2; used.has(name.toLowerCase()); k++) name = `${base.slice(0, 31 - String(k).length - 1)} ${k}`;
+    used.add(name.toLowerCase());
+
+    const sheet = workbook.addWorksheet(name);
+    sheet.addRow([table.title]).font = { bold: true, size: 12 };
+    sheet.addRow(table.header).font = { bold: true };
+    table.rows.forEach(row => sheet.addRow(row));
+    sheet.getColumn(1).width = Math.min(60, Math.max(14, ...table.rows.map(row => String(row[0]).length + 2)));
+    for (let c = 2; c <= table.header.length; c++) sheet.getColumn(c).width = Math.max(12, Math.min(40, table.header[c - 1].length + 2));
+  });
+  return await workbook.xlsx.writeBuffer() as ArrayBuffer;
+};
+
+
+// --- Project Library ---
+
+// Projects are stored as project files in localStorage, next to an index of names
+const STORAGE_PREFIX = "fuzzy-ahp";
+const LIBRARY_KEY = `${STORAGE_PREFIX}:library`;
+const CURRENT_PROJECT_KEY = `${STORAGE_PREFIX}:current`;
+const AUTOSAVE_DELAY_MS = 500;
+
+const projectStorageKey = (id: string) => `${STORAGE_PREFIX}:project:${id}`;
+
+const readLibrary = (): LibraryEntry[] => {
+  try {
+    const entries = JSON.parse(localStorage.getItem(LIBRARY_KEY) ?? '[]');
+    return Array.isArray(entries) ? entries.filter(e => typeof e?.id === 'string' && typeof e.name === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+// Writes one project and returns the updated index, most recently edited first
+const saveLibraryProject = (id: string, name: string, project: Project): LibraryEntry[] => {
+  localStorage.setItem(projectStorageKey(id), JSON.stringify(serializeProject(project)));
+  const entry = { id, name, updatedAt: new Date().toISOString() };
+  const entries = [entry, ...readLibrary().filter(e => e.id !== id)];
+  localStorage.setItem(LIBRARY_KEY, JSON.stringify(entries));
+  localStorage.setItem(CURRENT_PROJECT_KEY, id);
+  return entries;
+};
+
+const loadLibraryProject = (id: string): Project => {
+  const text = localStorage.getItem(projectStorageKey(id));
+  if (text === null) throw new Error("Проєкт відсутній у сховищі браузера.");
+  return parseProjectFile(text);
+};
+
+const deleteLibraryProject = (id: string): LibraryEntry[] => {
+  localStorage.removeItem(projectStorageKey(id));
+  const entries = readLibrary().filter(e => e.id !== id);
+  localStorage.setItem(LIBRARY_KEY, JSON.stringify(entries));
+  return entries;
+};
+
+// Built-in starters: the logistics example from the paper and an N×M template of equal judgments
+const getExampleProject = (): Project => ({
+  scales: [DEFAULT_SCALE],
+  matrixScales: {},
+  hierarchy: getInitialHierarchy(),
+  altNames: INITIAL_ALT_NAMES,
+  experts: getInitialExpertsState(),
+  altRatings: {},
+  topsis: {},
+  settings: DEFAULT_SETTINGS,
+});
+
+const getBlankProject = (numCriteria: number, numAlternatives: number): Project => {
+  const hierarchy: CriterionNode = {
+    id: GOAL_ID,
+    name: "Нова задача",
+    children: Array.from({ length: numCriteria }, (_, i) => ({ id: crypto.randomUUID(), name: `Критерій ${i + 1}`, children: [] })),
+  };
+  return {
+    scales: [DEFAULT_SCALE],
+    matrixScales: {},
+    hierarchy,
+    altNames: Array.from({ length: numAlternatives }, (_, i) => `Альтернатива ${i + 1}`),
+    experts: [createExpert("Експерт 1", getBlankMatrices(hierarchy, numAlternatives, () => DEFAULT_TERMS))],
+    altRatings: {},
+    topsis: {},
+    settings: DEFAULT_SETTINGS,
+  };
+};
+
+// Reopens the project this browser worked on last, falling back to the example
+const restoreSession = (): { id: string; name: string; project: Project } => {
+  const id = localStorage.getItem(CURRENT_PROJECT_KEY);
+  const entry = readLibrary().find(e => e.id === id);
+  if (entry) {
+    try {
+      return { id: entry.id, name: entry.name, project: loadLibraryProject(entry.id) };
+    } catch {
+      // A corrupted entry stays in the drawer; start from the example instead
+    }
+  }
+  return { id: crypto.randomUUID(), name: "Вибір логістичного партнера", project: getExampleProject() };
+};
+
+
+// --- Theming ---
+
+// Printing shows only the report: no app bar or buttons, flat white sheets, long formulas shrunk to the page width
+const PRINT_STYLES = {
+  '@media print': {
+    '.no-print': { display: 'none !important' },
+    body: { backgroundColor: '#fff' },
+    '.report .MuiPaper-root': { boxShadow: 'none', border: 'none' },
+    '.report .katex-display': { fontSize: '0.85em', overflow: 'hidden' },
+    '@page': { size: 'A4', margin: '15mm' },
+  },
+  '.report .katex-display': { overflowX: 'auto', overflowY: 'hidden' },
+};
+const theme = createTheme({
+  palette: {
+    primary: { main: "#1976d2" },
+    secondary: { main: "#dc004e" },
+    success: { main: "#4caf50", contrastText: "#fff" },
+    background: { default: "#f5f5f5", paper: "#ffffff" },
+  },
+  typography: {
+    fontFamily: '"Roboto", "Helvetica", "Arial", sans-serif',
+    h5: { fontWeight: 600 },
+    h6: { fontWeight: 500 },
+  },
+  components: {
+    MuiTableCell: {
+      styleOverrides: {
+        root: { padding: "8px 16px" },
+        head: { fontWeight: 700, backgroundColor: "#e0e0e0" },
+      },
+    },
+    MuiPaper: {
+        styleOverrides: {
+          root: { borderRadius: 8, boxShadow: "0 4px 12px rgba(0,0,0,0.05)" },
+        },
+      },
+  },
+});
+
+// --- Components ---
+
+const TermChart: React.FC<{ terms: LinguisticTerm[] }> = ({ terms }) => {
+  const data = useMemo(() => {
+    const datasets = terms.map((term, index) => {
+      const points = [
+        { x: term.tri.l, y: 0 },
+        { x: term.tri.m, y: 1 },
+        ...(isTrapezoidal(term.tri) ? [{ x: term.tri.m2!, y: 1 }] : []),
+        { x: term.tri.u, y: 0 },
+      ];
+      const color = `hsl(${(index * 360) / terms.length}, 70%, 50%)`;
+      return {
+        label: `${term.shortName} (${term.value})`,
+        data: points,
+        borderColor: color,
+        backgroundColor: color.replace('50%)', '50%, 0.1)'),
+        borderWidth: 2,
+        fill: true,
+        tension: 0,
+        showLine: true,
+      };
+    });
+    return { datasets };
+  }, [terms]);
+
+  const allValues = terms.flatMap(t => fuzzyComponents(t.tri));
+  const minX = Math.min(...allValues, 0);
+  const maxX = Math.max(...allValues, 9) + 1;
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    scales: {
+      x: {
+        type: 'linear' as const,
+        min: minX,
+        max: maxX,
+        title: { display: true, text: 'Saaty Scale / Fuzzy Scale' }
+      },
+      y: { min: 0, max: 1.1, title: { display: true, text: 'Membership Degree (µ)' } }
+    },
+    plugins: {
+      legend: { position: 'bottom' as const },
+      tooltip: { callbacks: { label: (ctx: any) => `${ctx.dataset.label}: x=${formatNumber(ctx.parsed.x, 2)}, µ=${formatNumber(ctx.parsed.y, 2)}` } }
+    }
+  };
+
+  return (
+    <Box sx={{ height: 300, width: '100%', mt: 2, mb: 4 }}>
+      <Line data={data} options={options} />
+    </Box>
+  );
+};
+
+const LinguisticTermEditor: React.FC<{
+  open: boolean;
+  onClose: () => void;
+  scaleName: string;
+  terms: LinguisticTerm[];
+  onSave: (terms: LinguisticTerm[]) => void;
+}> = ({ open, onClose, scaleName, terms, onSave }) => {
+  const [localTerms, setLocalTerms] = useState(terms);
+  const [errors, setErrors] = useState<Record<string, { [key: string]: string }>>({});
+  const [scaleError, setScaleError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+        setLocalTerms([...terms].sort((a, b) => a.value - b.value)); 
+        setErrors({});
+        setScaleError(null);
+    }
+  }, [open, terms]);
+
+  // The preset the edited scale still matches term for term, if any
+  const activePreset = SCALE_PRESETS.find(preset => preset.terms.length === localTerms.length
+    && preset.terms.every(t => localTerms.some(l => l.value === t.value && triApproxEqual(l.tri, t.tri))));
+
+  const loadScale = (next: LinguisticTerm[]) => {
+    setLocalTerms(remapTermIds(next, terms).sort((a, b) => a.value - b.value));
+    setScaleError(null);
+  };
+
+  const handleExportScale = () => {
+    const file = serializeScale(activePreset?.name ?? scaleName, localTerms);
+    downloadBlob(new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }), 'fuzzy-ahp-scale.json');
+  };
+
+  const handleImportScale = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      loadScale(parseScaleFile(await file.text()).terms);
+    } catch (err) {
+      setScaleError(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const validate = useCallback((currentTerms: LinguisticTerm[]): Record<string, { [key: string]: string }> => {
+    const newErrors: Record<string, { [key: string]: string }> = {};
+    const shortNames = new Set<string>();
+    const values = new Set<number>();
+
+    currentTerms.forEach(term => {
+        const termErrors: { [key: string]: string } = {};
+        if (term.shortName.trim() === '') termErrors.shortName = "Обов'язково";
+        else if (shortNames.has(term.shortName.trim())) termErrors.shortName = "Дублікат";
+        shortNames.add(term.shortName.trim());
+
+        if (values.has(term.value)) termErrors.value = "Дублікат";
+        values.add(term.value);
+
+        const { l, m, u } = term.tri;
+        if (l > m) termErrors.l = "l ≤ m";
+        if (m > modalEnd(term.tri)) termErrors.m = isTrapezoidal(term.tri) ? "m ≤ m2" : "m ≤ u";
+        if (isTrapezoidal(term.tri) && term.tri.m2! > u) termErrors.m2 = "m2 ≤ u";
+        
+        if (Object.keys(termErrors).length > 0) newErrors[term.id] = termErrors;
+    });
+    return newErrors;
+  }, []);
+
+  const handleChange = (idx: number, field: keyof TriangularNumber | 'shortName' | 'name' | 'value', val: string) => {
+    const newTerms = [...localTerms];
+    const newTerm = { ...newTerms[idx] };
+    if (field === 'l' || field === 'm' || field === 'm2' || field === 'u') {
+        const num = parseFloat(val);
+        newTerm.tri = { ...newTerm.tri, [field]: isNaN(num) ? 0 : num };
+    } else if (field === 'value') {
+        const num = parseInt(val, 10);
+        newTerm.value = isNaN(num) ? 0 : num;
+    } else {
+        (newTerm as any)[field] = val;
+    }
+    newTerms[idx] = newTerm;
+    setLocalTerms(newTerms);
+  };
+
+  // A new trapezoid starts with a degenerate plateau [m, m], i.e. the same shape as the triangle
+  const handleShapeChange = (idx: number, trapezoidal: boolean) => {
+    setLocalTerms(prev => prev.map((term, i) => i !== idx ? term : {
+      ...term,
+      tri: withPlateau(term.tri.l, term.tri.m, modalEnd(term.tri), term.tri.u, trapezoidal),
+    }));
+  };
+  
+  const handleSave = () => {
+    const newErrors = validate(localTerms);
+    if (Object.keys(newErrors).length > 0) {
+        setErrors(newErrors);
+        return;
+    }
+    onSave(localTerms);
+    onClose();
+  };
+  
+  useEffect(() => {
+    if (open) setErrors(validate(localTerms));
+  }, [localTerms, open, validate]);
+
+  const addTerm = () => {
+    const nextValue = localTerms.length > 0 ? Math.max(...localTerms.map(t => t.value)) + 1 : 1;
+    setLocalTerms(prev => [...prev, {
+        id: crypto.randomUUID(),
+        name: `New Term ${nextValue}`,
+        shortName: `T${nextValue}`,
+        value: nextValue,
+        tri: { l: nextValue, m: nextValue + 1, u: nextValue + 2 }
+    }]);
+  };
+
+  const deleteTerm = (id: string) => {
+    setLocalTerms(prev => prev.filter(t => t.id !== id));
+  };
+  
+  const hasGlobalError = Object.keys(errors).length > 0 || localTerms.length < 2;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>Редагування лінгвістичних термів: {scaleName}</DialogTitle>
+      <DialogContent>
+        <Stack spacing={3}>
+            <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap', mt: 1 }}>
+              <TextField select size="small" label="Шаблон шкали" value={activePreset?.id ?? ''} sx={{ minWidth: 320 }}
+                onChange={e => loadScale(SCALE_PRESETS.find(p => p.id === e.target.value)!.terms)}
+              >
+                <MenuItem value="" disabled>Власна шкала</MenuItem>
+                {SCALE_PRESETS.map(p => <MenuItem key={p.id} value={p.id}>{p.name}</MenuItem>)}
+              </TextField>
+              <Button startIcon={<DownloadIcon />} onClick={handleExportScale} disabled={hasGlobalError}>Експорт JSON</Button>
+              <Button startIcon={<UploadFileIcon />} component="label">
+                Імпорт JSON
+                <input type="file" accept=".json,application/json" hidden onChange={handleImportScale} />
+              </Button>
+            </Box>
+            {activePreset && <Typography variant="caption" color="text.secondary">Джерело: {activePreset.citation}</Typography>}
+            {scaleError && <Alert severity="error">{scaleError}</Alert>}
+            <Typography variant="body2" color="text.secondary">
+              Після збереження наявні судження переносяться на нову шкалу за значенням Saaty; судження зі значеннями,
+              яких немає в новій шкалі, можна замінити у діалозі міграції.
+            </Typography>
+            <TermChart terms={localTerms} />
+            <TableContainer component={Paper} variant="outlined">
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Значення</TableCell>
+                    <TableCell>Коротка назва</TableCell>
+                    <TableCell>Визначення</TableCell>
+                    <TableCell>Форма</TableCell>
+                    <TableCell align="center">L (мін)</TableCell>
+                    <TableCell align="center">M (сер)</TableCell>
+                    <TableCell align="center">M2 (кінець плато)</TableCell>
+                    <TableCell align="center">U (макс)</TableCell>
+                    <TableCell align="center">Дія</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {localTerms.map((term, idx) => (
+                    <TableRow key={term.id}>
+                      <TableCell>
+                        <TextField size="small" type="number" value={term.value} onChange={e => handleChange(idx, 'value', e.target.value)} sx={{ width: 60 }} 
+                           error={!!errors[term.id]?.value} helperText={errors[term.id]?.value}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <TextField size="small" value={term.shortName} onChange={e => handleChange(idx, 'shortName', e.target.value)} sx={{ width: 80 }} 
+                           error={!!errors[term.id]?.shortName} helperText={errors[term.id]?.shortName}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <TextField size="small" value={term.name} onChange={e => handleChange(idx, 'name', e.target.value)} fullWidth />
+                      </TableCell>
+                      <TableCell>
+                        <TextField select size="small" value={isTrapezoidal(term.tri) ? 'trapezoidal' : 'triangular'} onChange={e => handleShapeChange(idx, e.target.value === 'trapezoidal')} sx={{ width: 150 }}>
+                          <MenuItem value="triangular">Трикутна</MenuItem>
+                          <MenuItem value="trapezoidal">Трапецієподібна</MenuItem>
+                        </TextField>
+                      </TableCell>
+                      <TableCell>
+                        <TextField size="small" type="number" value={term.tri.l} onChange={e => handleChange(idx, 'l', e.target.value)} sx={{ width: 80 }} 
+                           error={!!errors[term.id]?.l} helperText={errors[term.id]?.l}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <TextField size="small" type="number" value={term.tri.m} onChange={e => handleChange(idx, 'm', e.target.value)} sx={{ width: 80 }} 
+                           error={!!errors[term.id]?.m} helperText={errors[term.id]?.m}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <TextField size="small" type="number" value={modalEnd(term.tri)} onChange={e => handleChange(idx, 'm2', e.target.value)} sx={{ width: 80 }}
+                           disabled={!isTrapezoidal(term.tri)} error={!!errors[term.id]?.m2} helperText={errors[term.id]?.m2}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <TextField size="small" type="number" value={term.tri.u} onChange={e => handleChange(idx, 'u', e.target.value)} sx={{ width: 80 }} 
+                           error={!!errors[term.id]?.u} helperText={errors[term.id]?.u}
+                        />
+                      </TableCell>
+                      <TableCell align="center">
+                          <IconButton onClick={() => deleteTerm(term.id)} disabled={localTerms.length <= 2}>
+                              <DeleteIcon fontSize="small"/>
+                          </IconButton>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+            <Button startIcon={<AddIcon />} onClick={addTerm} sx={{ alignSelf: 'flex-start' }}>Додати новий терм</Button>
+            {localTerms.length < 2 && (
+                <FormHelperText error sx={{ textAlign: 'center' }}>Потрібно мінімум 2 терми для порівнянь.</FormHelperText>
+            )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Скасувати</Button>
+        <Button onClick={handleSave} variant="contained" disabled={hasGlobalError}>Зберегти</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+const TermMigrationDialog: React.FC<{
+  removed: Array<{ term: LinguisticTerm; count: number }>;
+  terms: LinguisticTerm[];
+  onCancel: () => void;
+  onConfirm: (replacements: Record<string, string>) => void;
+}> = ({ removed, terms, onCancel, onConfirm }) => {
+  const [replacements, setReplacements] = useState<Record<string, string>>(
+    () => Object.fromEntries(removed.map(({ term }) => [term.id, findTermForValue(term.value, terms).id]))
+  );
+  const sortedTerms = [...terms].sort((a, b) => a.value - b.value);
+
+  return (
+    <Dialog open onClose={onCancel} maxWidth="sm" fullWidth>
+      <DialogTitle>Заміна видалених термів</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          Ці терми використовуються в матрицях попарних порівнянь. Оберіть терм нової шкали, який займе їхнє місце
+          (обернені судження 1/x залишаться оберненими).
+        </Typography>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Видалений терм</TableCell>
+              <TableCell align="center">Суджень</TableCell>
+              <TableCell>Замінити на</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {removed.map(({ term, count }) => (
+              <TableRow key={term.id}>
+                <TableCell>{term.shortName} ({term.value}) {formatTri(term.tri, 2)}</TableCell>
+                <TableCell align="center">{count}</TableCell>
+                <TableCell>
+                  <TextField
+                    select
+                    size="small"
+                    fullWidth
+                    value={replacements[term.id]}
+                    onChange={(e) => setReplacements(prev => ({ ...prev, [term.id]: e.target.value }))}
+                  >
+                    {sortedTerms.map(t => <MenuItem key={t.id} value={t.id}>{t.shortName} ({t.value}) {formatTri(t.tri, 2)}</MenuItem>)}
+                  </TextField>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCancel}>Скасувати зміни шкали</Button>
+        <Button variant="contained" onClick={() => onConfirm(replacements)}>Замінити та зберегти</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+const ConsistencyBadge: React.FC<{ consistency: ConsistencyResult }> = ({ consistency }) => (
+  <Tooltip title={`λmax = ${formatNumber(consistency.lambdaMax)}, CI = ${formatNumber(consistency.ci)}, CR (Gogus–Boucher) m = ${formatNumber(consistency.crM)}, g = ${formatNumber(consistency.crG)}`}>
+    <Chip
+      size="small"
+      color={consistency.isConsistent ? 'success' : 'error'}
+      label={`CR = ${formatNumber(consistency.cr)}${consistency.isConsistent ? '' : ' > ' + CONSISTENCY_THRESHOLD}`}
+    />
+  </Tooltip>
+);
+
+// One value or rating per alternative: n entries instead of n(n-1)/2 comparisons, so long lists stay manageable
+const AltRatingInput: React.FC<{
+  title: string;
+  items: string[];
+  rating: AltRating;
+  onChange: (rating: AltRating) => void;
+  defuzzify: Defuzzify;
+}> = ({ title, items, rating, onChange, defuzzify }) => {
+  // Raw text of the direct values being edited; a value reaches the model only once it parses on blur
+  const [drafts, setDrafts] = useState<Record<number, string>>({});
+  const error = ratingError(rating);
+  const steps = error ? null : ratingWeights(rating, defuzzify);
+
+  useEffect(() => { setDrafts({}); }, [items.length]);
+
+  const isValidDraft = (raw: string) => raw.trim() !== '' && Number.isFinite(Number(raw));
+
+  const setItem = (index: number, value: string) => onChange(rating.mode === 'direct'
+    ? { ...rating, values: rating.values.map((v, i) => i === index ? Number(value) : v) }
+    : { ...rating, ratings: rating.ratings.map((id, i) => i === index ? value : id) });
+
+  const commitDraft = (index: number) => {
+    const raw = drafts[index];
+    if (raw === undefined || !isValidDraft(raw)) return;
+    setItem(index, raw);
+    setDrafts(prev => Object.fromEntries(Object.entries(prev).filter(([i]) => Number(i) !== index)));
+  };
+
+  return (
+    <Paper sx={{ p: 2, mb: 3 }}>
+      <Typography variant="h6" color="primary" gutterBottom>{title}</Typography>
+      {rating.mode === 'direct' && (
+        <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', mb: 2 }}>
+          <TextField select size="small" label="Напрям критерію" value={rating.direction} onChange={(e) => onChange({ ...rating, direction: e.target.value as CriterionDirection })} sx={{ minWidth: 240 }}>
+            {CRITERION_DIRECTIONS.map(d => <MenuItem key={d.id} value={d.id}>{d.label}</MenuItem>)}
+          </TextField>
+          <TextField select size="small" label="Нормалізація" value={rating.normalization} onChange={(e) => onChange({ ...rating, normalization: e.target.value as ValueNormalization })} sx={{ minWidth: 320 }}>
+            {VALUE_NORMALIZATIONS.map(n => <MenuItem key={n.id} value={n.id}>{n.label}</MenuItem>)}
+          </TextField>
+        </Box>
+      )}
+      {error && <Alert severity="error" sx={{ mb: 1 }}>{error}</Alert>}
+      <TableContainer sx={{ maxHeight: 520 }}>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              <TableCell>Альтернатива</TableCell>
+              <TableCell align="center">{rating.mode === 'direct' ? 'Значення' : 'Оцінка'}</TableCell>
+              <TableCell align="center">S (нормалізоване)</TableCell>
+              <TableCell align="center">Локальна вага</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {items.map((item, i) => (
+              <TableRow key={i}>
+                <TableCell sx={{ fontWeight: 'bold' }}>{i + 1}. {item}</TableCell>
+                <TableCell align="center">
+                  {rating.mode === 'direct' ? (
+                    <TextField size="small" type="number" value={drafts[i] ?? rating.values[i]} sx={{ width: 140 }}
+                      onChange={(e) => setDrafts(prev => ({ ...prev, [i]: e.target.value }))}
+                      onBlur={() => commitDraft(i)}
+                      error={drafts[i] !== undefined && !isValidDraft(drafts[i])}
+                      helperText={drafts[i] !== undefined && !isValidDraft(drafts[i]) ? 'Введіть число' : undefined}
+                    />
+                  ) : (
+                    <Select size="small" value={rating.ratings[i]} onChange={(e) => setItem(i, e.target.value)} sx={{ minWidth: 180 }}>
+                      {RATING_TERMS.map(t => <MenuItem key={t.id} value={t.id}>{t.name} ({t.shortName}) {formatTri(t.tri, 0)}</MenuItem>)}
+                    </Select>
+                  )}
+                </TableCell>
+                <TableCell align="center">{steps ? (rating.mode === 'direct' ? formatNumber(steps.scores[i].m) : formatTri(steps.scores[i], 0)) : '—'}</TableCell>
+                <TableCell align="center" sx={{ fontWeight: 'bold' }}>{steps ? formatNumber(steps.weights[i]) : '—'}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+    </Paper>
+  );
+};
+
+const PairwiseMatrixInput: React.FC<{
+  items: string[];
+  matrix: MatrixCell[][];
+  onChange: (r: number, c: number, termValue: number) => void;
+  terms: LinguisticTerm[];
+  scaleName?: string;
+  title: string;
+  consistency?: ConsistencyResult;
+}> = ({ items, matrix, onChange, terms, scaleName, title, consistency }) => {
+
+  const options = useMemo(() => getTermOptions(terms), [terms]);
+  
+  const getCurrentSelectValue = (cell: MatrixCell): number => cell.isMissing || cell.isEstimated ? MISSING_JUDGMENT : cell.saatyValue || 1;
+  const estimatedSx = { bgcolor: '#fff8e1', fontStyle: 'italic' };
+
+  return (
+    <Paper sx={{ p: 2, mb: 3, overflowX: 'auto' }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 2, mb: 1 }}>
+        <Typography variant="h6" color="primary">{title}</Typography>
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+          {scaleName && <Chip size="small" variant="outlined" label={`Шкала: ${scaleName}`} />}
+          {consistency && <ConsistencyBadge consistency={consistency} />}
+        </Box>
+      </Box>
+      {hasMissingJudgments(matrix) && (
+        <Alert severity="error" sx={{ mb: 1 }}>
+          Відомі порівняння не утворюють зв'язного графа: кожен елемент має бути пов'язаний з іншими хоча б через ланцюжок суджень.
+        </Alert>
+      )}
+      <Table size="small" sx={{ minWidth: 650 }}>
+        <TableHead>
+          <TableRow>
+            <TableCell sx={{ backgroundColor: "#fff" }}>Vs.</TableCell>
+            {items.map((item, idx) => (
+              <TableCell key={idx} align="center" sx={{ maxWidth: 100, whiteSpace: "nowrap", overflow: "hidden", textOverflow: "ellipsis" }}>
+                {item.split('(')[0].trim()}
+              </TableCell>
+            ))}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {items.map((rowItem, r) => (
+            <TableRow key={r}>
+              <TableCell component="th" scope="row" sx={{ fontWeight: "bold", maxWidth: 150 }}>
+                {rowItem.split('(')[0].trim()}
+              </TableCell>
+              {items.map((_colItem, c) => {
+                const isDiagonal = r === c;
+                const isLowerTriangle = r > c;
+                const cell = matrix[r][c];
+
+                if (isDiagonal) {
+                  return <TableCell key={c} align="center" sx={{ bgcolor: "#f5f5f5" }}>(1,1,1)</TableCell>;
+                }
+
+                if (isLowerTriangle) {
+                  return (
+                    <TableCell key={c} align="center" sx={{ bgcolor: "#fafafa", color: "text.secondary", fontSize: "0.8rem", ...(cell.isEstimated && estimatedSx) }}>
+                      {cell.isMissing ? '?' : cell.isEstimated ? formatTri(cell.tri, 2) : formatTriInverse(cell.tri)}
+                    </TableCell>
+                  );
+                }
+
+                return (
+                  <TableCell key={c} align="center" sx={cell.isEstimated ? estimatedSx : undefined}>
+                    <Select
+                      value={getCurrentSelectValue(cell)}
+                      onChange={(e) => onChange(r, c, Number(e.target.value))}
+                      size="small"
+                      fullWidth
+                      sx={{ fontSize: "0.85rem" }}
+                      renderValue={(selected) => {
+                         if (selected === MISSING_JUDGMENT) return cell.isEstimated ? `? ≈ ${formatTri(cell.tri, 2)}` : '?';
+                         const opt = options.find(o => Math.abs(o.value - selected) < 0.0001);
+                         return opt ? (selected >= 1 ? formatTri(opt.tri) : formatTriInverse(opt.tri)) : formatNumber(selected);
+                      }}
+                    >
+                      {options.map(opt => <MenuItem key={opt.value} value={opt.value}>{opt.label}</MenuItem>)}
+                      <MenuItem value={MISSING_JUDGMENT}>? (невідомо)</MenuItem>
+                    </Select>
+                  </TableCell>
+                );
+              })}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </Paper>
+  );
+};
+
+const RepairAssistantPanel: React.FC<{
+  items: string[];
+  matrix: MatrixCell[][];
+  terms: LinguisticTerm[];
+  consistency: ConsistencyResult;
+  defuzzify: Defuzzify;
+  onApply: (r: number, c: number, termValue: number) => void;
+}> = ({ items, matrix, terms, consistency, defuzzify, onApply }) => {
+  const suggestions = useMemo(() => findInconsistentJudgments(matrix, terms, defuzzify), [matrix, terms, defuzzify]);
+  const shortName = (idx: number) => items[idx].split('(')[0].trim();
+
+  return (
+    <Paper sx={{ p: 2, mb: 3 }}>
+      <Typography variant="h6" gutterBottom color="primary">Найбільш суперечливі судження</Typography>
+      {consistency.isConsistent && (
+        <Typography variant="body2" color="text.secondary" gutterBottom>Матриця узгоджена (CR = {formatNumber(consistency.cr)}).</Typography>
+      )}
+      {suggestions.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">Немає суджень, які варто змінити.</Typography>
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Пара</TableCell>
+              <TableCell align="center">a<sub>ij</sub> / (w<sub>i</sub>/w<sub>j</sub>)</TableCell>
+              <TableCell align="center">Пропозиція</TableCell>
+              <TableCell align="center">Дія</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {suggestions.map(s => (
+              <TableRow key={`${s.r}-${s.c}`}>
+                <TableCell>{shortName(s.r)} vs. {shortName(s.c)}</TableCell>
+                <TableCell align="center">{formatNumber(s.current, 2)} / {formatNumber(s.implied, 2)}</TableCell>
+                <TableCell align="center">
+                  <Typography variant="body2">{s.suggestedLabel}</Typography>
+                  <Typography variant="caption" color="text.secondary">CR &rarr; {formatNumber(s.crAfter)}</Typography>
+                </TableCell>
+                <TableCell align="center">
+                  <Button size="small" variant="outlined" onClick={() => onApply(s.r, s.c, s.suggestedValue)}>Застосувати</Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Paper>
+  );
+};
+
+
+const CriteriaTreeEditor: React.FC<{
+  hierarchy: CriterionNode;
+  onRename: (id: string, name: string) => void;
+  onAddChild: (parentId: string) => void;
+  onDelete: (id: string) => void;
+  canDelete: (id: string) => boolean;
+  onIndent: (id: string) => void;
+  onOutdent: (id: string) => void;
+}> = ({ hierarchy, onRename, onAddChild, onDelete, canDelete, onIndent, onOutdent }) => {
+  const renderNode = (node: CriterionNode, depth: number, index: number, label: string): React.ReactNode => (
+    <Box key={node.id}>
+      <Box sx={{ display: 'flex', gap: 0.5, mb: 1, pl: depth * 4, alignItems: 'center' }}>
+        <TextField fullWidth size="small" value={node.name} onChange={(e) => onRename(node.id, e.target.value)} label={depth === 0 ? `Критерій ${label}` : `Підкритерій ${label}`} />
+        <Tooltip title="Додати підкритерій">
+          <IconButton size="small" onClick={() => onAddChild(node.id)}><SubdirectoryArrowRightIcon fontSize="small" /></IconButton>
+        </Tooltip>
+        <Tooltip title="Перемістити до попереднього критерію">
+          <span><IconButton size="small" onClick={() => onIndent(node.id)} disabled={index === 0 || (depth === 0 && hierarchy.children.length <= 2)}><FormatIndentIncreaseIcon fontSize="small" /></IconButton></span>
+        </Tooltip>
+        <Tooltip title="Підняти на рівень вище">
+          <span><IconButton size="small" onClick={() => onOutdent(node.id)} disabled={depth === 0}><FormatIndentDecreaseIcon fontSize="small" /></IconButton></span>
+        </Tooltip>
+        <IconButton color="error" onClick={() => onDelete(node.id)} disabled={!canDelete(node.id)}>
+          <DeleteIcon />
+        </IconButton>
+      </Box>
+      {node.children.map((child, i) => renderNode(child, depth + 1, i, `${label}.${i + 1}`))}
+    </Box>
+  );
+
+  return <>{hierarchy.children.map((child, i) => renderNode(child, 0, i, `${i + 1}`))}</>;
+};
+
+
+const MatrixImportDialog: React.FC<{
+  open: boolean;
+  onClose: () => void;
+  targets: ImportTarget[];
+  onApply: (assignments: Array<{ key: string; matrix: MatrixCell[][] }>) => void;
+}> = ({ open, onClose, targets, onApply }) => {
+  const [fileName, setFileName] = useState('');
+  const [imported, setImported] = useState<Array<{ source: ImportedMatrix; check: ImportCheck; target: string; keep: Record<string, TriangleChoice> }>>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setFileName('');
+      setImported([]);
+      setError(null);
+    }
+  }, [open]);
+
+  // Suggests a target by title or item names; matrices with contradicting cells are left for the user to assign
+  const suggestTarget = (source: ImportedMatrix, check: ImportCheck, taken: Set<string>): string => {
+    if (check.nonReciprocal.length > 0) return '';
+    const norm = (text: string) => text.trim().toLowerCase();
+    const sized = targets.filter(t => t.items.length === source.cells.length && !taken.has(t.key));
+    const match = sized.find(t => norm(t.name) === norm(source.title) || norm(t.label) === norm(source.title))
+      ?? sized.find(t => t.items.every((item, i) => norm(item) === norm(source.items[i])) && targets.filter(o => o.items.length === t.items.length).length === 1);
+    return match?.key ?? '';
+  };
+
+  const hasInvalidUpper = (check: ImportCheck) => check.invalid.some(([r, c]) => r < c);
+
+  // Matrices are found with the terms of every scale; cells are then read against the scale of their target matrix
+  const allTerms = targets.flatMap(t => t.terms);
+  const termsOf = (target: string) => targets.find(t => t.key === target)?.terms ?? allTerms;
+  const readFor = (source: ImportedMatrix, target: string) => {
+    const terms = termsOf(target);
+    const reread = { ...source, cells: source.cells.map(row => row.map(cell => parseJudgment(cell.raw, terms))) };
+    return { source: reread, check: checkImportedMatrix(reread, terms), target, keep: {} };
+  };
+
+  // Contradicting pairs stay unresolved until the user picks the triangle to keep
+  const unresolved = (m: { check: ImportCheck; keep: Record<string, TriangleChoice> }) => m.check.conflicts.filter(([r, c]) => !m.keep[`${r}-${c}`]);
+  const choose = (idx: number, pairs: Array<[number, number]>, side: TriangleChoice) => setImported(prev => prev.map((m, i) => i === idx
+    ? { ...m, keep: { ...m.keep, ...Object.fromEntries(pairs.map(([r, c]) => [`${r}-${c}`, side])) } }
+    : m));
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setFileName(file.name);
+    try {
+      const sheets = /\.xlsx$/i.test(file.name)
+        ? await readXlsxGrids(await file.arrayBuffer())
+        : [{ name: file.name.replace(/\.[^.]+$/, ''), grid: parseCsv(await file.text()) }];
+      const sources = sheets.flatMap(sheet => extractMatrices(sheet.grid, sheet.name, allTerms));
+      if (sources.length === 0) throw new Error("У файлі не знайдено жодної квадратної матриці.");
+      const taken = new Set<string>();
+      setImported(sources.map(source => {
+        const detected = readFor(source, '');
+        const target = hasInvalidUpper(detected.check) ? '' : suggestTarget(source, detected.check, taken);
+        if (target) taken.add(target);
+        return target ? readFor(source, target) : detected;
+      }));
+      setError(null);
+    } catch (err) {
+      setImported([]);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const setTarget = (idx: number, target: string) => setImported(prev => prev.map((m, i) => i === idx ? readFor(m.source, target) : m));
+  const assigned = imported.filter(m => m.target !== '');
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
+      <DialogTitle>Імпорт суджень з CSV / XLSX</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2}>
+          <Typography variant="body2" color="text.secondary">
+            Комірки: числа Сааті (3, 1/3, 0.333), назви термів ({getTermOptions(targets[0]?.terms ?? []).slice(0, 2).map(o => o.label).join(', ')}, Inverse …) або трійки (l, m, u).
+            Матриці відокремлюються порожнім рядком; рядок з однією коміркою над матрицею задає її назву. Імпортується верхній трикутник, нижній перевіряється на обернені значення; для суперечливих пар потрібно обрати, яке судження зберегти.
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+            <Button variant="outlined" startIcon={<UploadFileIcon />} component="label">
+              Обрати файл
+              <input type="file" accept=".csv,.tsv,.txt,.xlsx" hidden onChange={handleFile} />
+            </Button>
+            <Typography variant="body2">{fileName}</Typography>
+          </Box>
+          {error && <Alert severity="error">{error}</Alert>}
+          {imported.map(({ source, check, target, keep }, idx) => {
+            const upperInvalid = hasInvalidUpper(check);
+            const pending = unresolved({ check, keep }).length;
+            const isFlagged = (list: Array<[number, number]>, r: number, c: number) => list.some(([fr, fc]) => fr === r && fc === c);
+            return (
+              <Paper key={idx} variant="outlined" sx={{ p: 2 }}>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: 2, mb: 1 }}>
+                  <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                    <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>{source.title} ({source.cells.length}&times;{source.cells.length})</Typography>
+                    {check.invalid.length > 0 && <Chip size="small" color="error" label={`Не розпізнано: ${check.invalid.length}`} />}
+                    {check.nonReciprocal.length > 0 && <Chip size="small" color="warning" label={`Не обернені: ${check.nonReciprocal.length}`} />}
+                    {pending > 0 && <Chip size="small" color="warning" variant="outlined" label={`Не обрано: ${pending}`} />}
+                  </Box>
+                  <TextField
+                    select
+                    size="small"
+                    label="Записати в матрицю"
+                    value={target}
+                    onChange={(e) => setTarget(idx, e.target.value)}
+                    sx={{ minWidth: 320 }}
+                    disabled={upperInvalid && target === ''}
+                  >
+                    <MenuItem value="">— не імпортувати —</MenuItem>
+                    {targets.filter(t => t.items.length === source.cells.length).map(t => <MenuItem key={t.key} value={t.key}>{t.label}</MenuItem>)}
+                  </TextField>
+                </Box>
+                {upperInvalid && <Alert severity="error" sx={{ mb: 1 }}>Верхній трикутник містить нерозпізнані комірки{target ? ' за шкалою обраної матриці — оберіть іншу матрицю або виправте файл' : ' — виправте файл і завантажте його знову'}.</Alert>}
+                {check.nonReciprocal.length > 0 && (
+                  <Alert
+                    severity="warning"
+                    sx={{ mb: 1 }}
+                    action={check.conflicts.length > 0 && (
+                      <Stack direction="row" spacing={1}>
+                        <Button color="inherit" size="small" onClick={() => choose(idx, check.conflicts, 'upper')}>Усі — верхній</Button>
+                        <Button color="inherit" size="small" onClick={() => choose(idx, check.conflicts, 'lower')}>Усі — нижній</Button>
+                      </Stack>
+                    )}
+                  >
+                    Нижній трикутник або діагональ суперечать a<sub>ji</sub> = 1 / a<sub>ij</sub>.
+                    {check.conflicts.length > 0 && ' Для кожної виділеної пари клацніть комірку, судження якої слід зберегти; друга комірка отримає обернене значення. Імпорт матриці можливий після вибору для всіх пар.'}
+                    {check.conflicts.length < check.nonReciprocal.length && ' Діагональ завжди дорівнює 1.'}
+                  </Alert>
+                )}
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Vs.</TableCell>
+                      {source.items.map((item, i) => <TableCell key={i} align="center">{item.split('(')[0].trim()}</TableCell>)}
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {source.cells.map((row, r) => (
+                      <TableRow key={r}>
+                        <TableCell sx={{ fontWeight: 'bold' }}>{source.items[r].split('(')[0].trim()}</TableCell>
+                        {row.map((cell, c) => {
+                          const bad = isFlagged(check.invalid, r, c);
+                          const pair: [number, number] = r < c ? [r, c] : [c, r];
+                          const side: TriangleChoice = r < c ? 'upper' : 'lower';
+                          const inConflict = r !== c && isFlagged(check.conflicts, ...pair);
+                          const chosen = inConflict ? keep[`${pair[0]}-${pair[1]}`] : undefined;
+                          const contradicts = isFlagged(check.nonReciprocal, r, c) || (inConflict && !chosen);
+                          return (
+                            <Tooltip key={c} title={bad ? cell.error ?? '' : inConflict ? (chosen === side ? 'Це судження буде збережено' : 'Клацніть, щоб зберегти це судження') : contradicts ? `Очікується ${formatTriInverse(check.matrix[r][c].tri)}` : cell.judgment ? (cell.judgment.value === MISSING_JUDGMENT ? 'невідомо' : formatTri(cell.judgment.tri)) : ''}>
+                              <TableCell
+                                align="center"
+                                onClick={inConflict ? () => choose(idx, [pair], side) : undefined}
+                                sx={{
+                                  bgcolor: bad ? '#ffebee' : chosen === side ? '#e8f5e9' : contradicts && !chosen ? '#fff3e0' : r < c ? 'inherit' : '#fafafa',
+                                  color: r >= c && !bad && !contradicts && chosen !== side ? 'text.secondary' : 'inherit',
+                                  ...(inConflict && { cursor: 'pointer', fontWeight: chosen === side ? 'bold' : 'normal', textDecoration: chosen && chosen !== side ? 'line-through' : 'none' }),
+                                }}
+                              >
+                                {cell.raw || '—'}
+                              </TableCell>
+                            </Tooltip>
+                          );
+                        })}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Paper>
+            );
+          })}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Скасувати</Button>
+        <Button
+          variant="contained"
+          disabled={assigned.length === 0 || new Set(assigned.map(m => m.target)).size !== assigned.length || assigned.some(m => hasInvalidUpper(m.check) || unresolved(m).length > 0)}
+          onClick={() => { onApply(assigned.map(m => ({ key: m.target, matrix: resolveImportedMatrix(m.source, m.check, m.keep, termsOf(m.target)) }))); onClose(); }}
+        >
+          Імпортувати ({assigned.length})
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+const ProjectLibraryDrawer: React.FC<{
+  open: boolean;
+  onClose: () => void;
+  entries: LibraryEntry[];
+  currentId: string;
+  onSwitch: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onCreateExample: () => void;
+  onCreateBlank: (numCriteria: number, numAlternatives: number) => void;
+}> = ({ open, onClose, entries, currentId, onSwitch, onRename, onDuplicate, onDelete, onCreateExample, onCreateBlank }) => {
+  const [blankCriteria, setBlankCriteria] = useState(3);
+  const [blankAlternatives, setBlankAlternatives] = useState(3);
+  const clampSize = (v: string) => Math.max(2, Math.min(15, parseInt(v, 10) || 2));
+
+  return (
+    <Drawer anchor="left" open={open} onClose={onClose}>
+      <Box sx={{ width: 420, p: 2 }}>
+        <Typography variant="h6" gutterBottom>Проєкти</Typography>
+        <Typography variant="caption" color="text.secondary">Зміни автоматично зберігаються у сховищі браузера.</Typography>
+        <List dense>
+          {entries.map(entry => (
+            <ListItem key={entry.id} disableGutters sx={{ gap: 0.5, bgcolor: entry.id === currentId ? '#e3f2fd' : 'inherit', borderRadius: 1, px: 1 }}>
+              <TextField
+                size="small"
+                variant="standard"
+                fullWidth
+                value={entry.name}
+                onChange={(e) => onRename(entry.id, e.target.value)}
+                helperText={new Date(entry.updatedAt).toLocaleString()}
+              />
+              <Tooltip title="Відкрити">
+                <span><IconButton size="small" onClick={() => onSwitch(entry.id)} disabled={entry.id === currentId}><FolderOpenIcon fontSize="small" /></IconButton></span>
+              </Tooltip>
+              <Tooltip title="Дублювати">
+                <IconButton size="small" onClick={() => onDuplicate(entry.id)}><ContentCopyIcon fontSize="small" /></IconButton>
+              </Tooltip>
+              <IconButton size="small" color="error" onClick={() => onDelete(entry.id)} disabled={entries.length <= 1}>
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </ListItem>
+          ))}
+        </List>
+        <Typography variant="subtitle2" sx={{ mt: 2, mb: 1 }}>Новий проєкт</Typography>
+        <Stack spacing={1.5}>
+          <Button variant="outlined" startIcon={<AddIcon />} onClick={onCreateExample}>Приклад: вибір логістичного партнера</Button>
+          <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+            <TextField size="small" type="number" label="Критеріїв" value={blankCriteria} onChange={(e) => setBlankCriteria(clampSize(e.target.value))} sx={{ width: 100 }} />
+            <TextField size="small" type="number" label="Альтернатив" value={blankAlternatives} onChange={(e) => setBlankAlternatives(clampSize(e.target.value))} sx={{ width: 110 }} />
+            <Button variant="outlined" startIcon={<AddIcon />} onClick={() => onCreateBlank(blankCriteria, blankAlternatives)}>Порожній {blankCriteria}&times;{blankAlternatives}</Button>
+          </Box>
+        </Stack>
+      </Box>
+    </Drawer>
+  );
+};
+
+
+// --- Result Tables ---
+
+const TableFuzzyWeights: React.FC<{
+  criteriaNames: string[];
+  critGeoMeans: TriangularNumber[];
+  critFuzzyWeights: TriangularNumber[];
+  sumCritGeoMeans: TriangularNumber;
+  invSumCrit: TriangularNumber;
+  tableNumber: number;
+  caption?: string;
+}> = ({ criteriaNames, critGeoMeans, critFuzzyWeights, sumCritGeoMeans, invSumCrit, tableNumber, caption }) => (
+    <TableContainer component={Paper} sx={{ mb: 3 }}>
+        <Typography variant="h6" sx={{ p: 2, pb: 1, bgcolor: '#e3f2fd' }}>Таблиця {tableNumber + 1}. Геометричне середнє нечітких порівнянь (r){caption ? ` — ${caption}` : ''}</Typography>
+        <Table size="small">
+            <TableHead>
+                <TableRow>
+                    <TableCell>Критерій</TableCell>
+                    <TableCell align="center">r (Geometric Mean)</TableCell>
+                </TableRow>
+            </TableHead>
+            <TableBody>
+                {criteriaNames.map((name, i) => (
+                    <TableRow key={i}>
+                        <TableCell>{name}</TableCell>
+                        <TableCell align="center">{formatTri(critGeoMeans[i])}</TableCell>
+                    </TableRow>
+                ))}
+            </TableBody>
+        </Table>
+        <Typography variant="h6" sx={{ p: 2, pb: 1, bgcolor: '#e3f2fd', mt: 2 }}>Таблиця {tableNumber + 2}. Нечіткі ваги (w)</Typography>
+        <Table size="small">
+            <TableHead>
+                <TableRow>
+                    <TableCell>Критерій</TableCell>
+                    <TableCell align="center">w (Fuzzy Weight)</TableCell>
+                </TableRow>
+            </TableHead>
+            <TableBody>
+                {criteriaNames.map((name, i) => (
+                    <TableRow key={i}>
+                        <TableCell>{name}</TableCell>
+                        <TableCell align="center">{formatTri(critFuzzyWeights[i])}</TableCell>
+                    </TableRow>
+                ))}
+                <TableRow sx={{ bgcolor: '#fff3e0' }}>
+                    <TableCell colSpan={2}>
+                        <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
+                            Vector Sum (sr): {formatTri(sumCritGeoMeans, 3)}
+                        </Typography>
+                        <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
+                            Inversion Vector (isr): {formatTriInverse(invSumCrit)} = {formatTri(invSumCrit, 4)}
+                        </Typography>
+                    </TableCell>
+                </TableRow>
+            </TableBody>
+        </Table>
+    </TableContainer>
+);
+
+const TableNormalizedWeights: React.FC<{
+  criteriaNames: string[];
+  critFuzzyWeights: TriangularNumber[];
+  critDefuzzified: number[];
+  critNormWeights: number[];
+  defuzzifier: Defuzzifier;
+  optimism: number;
+  tableNumber: number;
+  caption?: string;
+}> = ({ criteriaNames, critFuzzyWeights, critDefuzzified, critNormWeights, defuzzifier, optimism, tableNumber, caption }) => {
+    const sumCritDefuzz = critDefuzzified.reduce((a, b) => a + b, 0);
+
+    return (
+        <TableContainer component={Paper} sx={{ mb: 3 }}>
+            <Typography variant="h6" sx={{ p: 2, pb: 1, bgcolor: '#e3f2fd' }}>Таблиця {tableNumber + 3}. Дефазифіковані ваги (M){caption ? ` — ${caption}` : ''}</Typography>
+            <Table size="small">
+                <TableHead>
+                    <TableRow>
+                        <TableCell>Критерій</TableCell>
+                        <TableCell align="center">M (Defuzzified)</TableCell>
+                        <TableCell align="center">Формула: {defuzzifier.formulaLabel}{defuzzifier.optimismLabel ? `, ${defuzzifier.optimismLabel} = ${formatNumber(optimism, 2)}` : ''}</TableCell>
+                    </TableRow>
+                </TableHead>
+                <TableBody>
+                    {criteriaNames.map((name, i) => (
+                        <TableRow key={i}>
+                            <TableCell>{name}</TableCell>
+                            <TableCell align="center">{formatNumber(critDefuzzified[i])}</TableCell>
+                            <TableCell align="center">{defuzzifier.formula(critFuzzyWeights[i], optimism)}</TableCell>
+                        </TableRow>
+                    ))}
+                </TableBody>
+            </Table>
+            <Typography variant="h6" sx={{ p: 2, pb: 1, bgcolor: '#e3f2fd', mt: 2 }}>Таблиця {tableNumber + 4}. Нормалізовані ваги (N)</Typography>
+            <Table size="small">
+                <TableHead>
+                    <TableRow>
+                        <TableCell>Критерій</TableCell>
+                        <TableCell align="center">N (Normalized)</TableCell>
+                        <TableCell align="center">Формула (M / &sum; M)</TableCell>
+                        <TableCell align="center">Сума (&sum; N)</TableCell>
+                    </TableRow>
+                </TableHead>
+                <TableBody>
+                    {criteriaNames.map((name, i) => (
+                        <TableRow key={i} sx={{ bgcolor: '#e3f2fd' }}>
+                            <TableCell>{name}</TableCell>
+                            <TableCell align="center" sx={{ fontWeight: 'bold' }}>{formatNumber(critNormWeights[i])}</TableCell>
+                            <TableCell align="center">{formatNumber(critDefuzzified[i], 4)} / {formatNumber(sumCritDefuzz, 4)}</TableCell>
+                            <TableCell align="center">{i === 0 ? formatNumber(critNormWeights.reduce((a, b) => a + b, 0)) : ''}</TableCell>
+                        </TableRow>
+                    ))}
+                </TableBody>
+            </Table>
+        </TableContainer>
+    );
+};
+
+const TableAltNormalizedWeights: React.FC<{
+    criteriaName: string;
+    altNames: string[];
+    steps: BuckleyResult;
+    tableNumber: number;
+    defuzzifier: Defuzzifier;
+}> = ({ criteriaName, altNames, steps, tableNumber, defuzzifier }) => {
+    const { geoMeans, sumGeo, invSum, fuzzyWeights, defuzzified, weights: localWeights } = steps;
+
+    return (
+        <TableContainer component={Paper} sx={{ mb: 3 }}>
+            <Typography variant="h6" sx={{ p: 2, pb: 1, bgcolor: '#f3e5f5' }}>
+                Критерій: {criteriaName} (Таблиці: {tableNumber} - {tableNumber + 4})
+            </Typography>
+            <Table size="small">
+                <TableHead>
+                    <TableRow>
+                        <TableCell>Альтернатива</TableCell>
+                        <TableCell align="center">r (Geo Mean)</TableCell>
+                        <TableCell align="center">w (Fuzzy Weight)</TableCell>
+                        <TableCell align="center">M = {defuzzifier.formulaLabel}</TableCell>
+                        <TableCell align="center">N (Normalized)</TableCell>
+                    </TableRow>
+                </TableHead>
+                <TableBody>
+                    {altNames.map((name, i) => (
+                        <TableRow key={i} sx={{ bgcolor: i % 2 ? '#fafafa' : 'inherit' }}>
+                            <TableCell>{name}</TableCell>
+                            <TableCell align="center">{formatTri(geoMeans[i], 4)}</TableCell>
+                            <TableCell align="center">{formatTri(fuzzyWeights[i], 4)}</TableCell>
+                            <TableCell align="center">{formatNumber(defuzzified[i], 4)}</TableCell>
+                            <TableCell align="center" sx={{ fontWeight: 'bold', bgcolor: '#e3f2fd' }}>{formatNumber(localWeights[i], 4)}</TableCell>
+                        </TableRow>
+                    ))}
+                    <TableRow sx={{ bgcolor: '#fff3e0' }}>
+                        <TableCell colSpan={5}>
+                            <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
+                                Vector Sum (sr): {formatTri(sumGeo, 4)} | Inversion Vector (isr): {formatTri(invSum, 4)}
+                            </Typography>
+                        </TableCell>
+                    </TableRow>
+                </TableBody>
+            </Table>
+        </TableContainer>
+    );
+};
+
+const TableChangExtents: React.FC<{
+    title: string;
+    itemLabel: string;
+    names: string[];
+    steps: ChangResult;
+}> = ({ title, itemLabel, names, steps }) => (
+    <TableContainer component={Paper} sx={{ mb: 3 }}>
+        <Typography variant="h6" sx={{ p: 2, pb: 1, bgcolor: '#f3e5f5' }}>{title}</Typography>
+        <Table size="small">
+            <TableHead>
+                <TableRow>
+                    <TableCell>{itemLabel}</TableCell>
+                    <TableCell align="center">&sum;<sub>j</sub> M<sub>ij</sub></TableCell>
+                    <TableCell align="center">S<sub>i</sub> (Synthetic Extent)</TableCell>
+                    {names.map((name, k) => (
+                        <TableCell key={k} align="center">V(S<sub>i</sub> &ge; S<sub>{k + 1}</sub>)<br />{name.split('(')[0].trim()}</TableCell>
+                    ))}
+                    <TableCell align="center">d'(A<sub>i</sub>) = min V</TableCell>
+                    <TableCell align="center">W (Normalized)</TableCell>
+                </TableRow>
+            </TableHead>
+            <TableBody>
+                {names.map((name, i) => (
+                    <TableRow key={i} sx={{ bgcolor: i % 2 ? '#fafafa' : 'inherit' }}>
+                        <TableCell>{name}</TableCell>
+                        <TableCell align="center">{formatTri(steps.rowSums[i], 4)}</TableCell>
+                        <TableCell align="center">{formatTri(steps.extents[i], 4)}</TableCell>
+                        {names.map((_, k) => (
+                            <TableCell key={k} align="center" sx={{ color: i === k ? 'text.disabled' : 'inherit' }}>{i === k ? '—' : formatNumber(steps.possibility[i][k], 4)}</TableCell>
+                        ))}
+                        <TableCell align="center">{formatNumber(steps.minDegrees[i], 4)}</TableCell>
+                        <TableCell align="center" sx={{ fontWeight: 'bold', bgcolor: '#e3f2fd' }}>{formatNumber(steps.weights[i], 4)}</TableCell>
+                    </TableRow>
+                ))}
+                <TableRow sx={{ bgcolor: '#fff3e0' }}>
+                    <TableCell colSpan={names.length + 5}>
+                        <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
+                            &sum;&sum; M<sub>ij</sub>: {formatTri(steps.totalSum, 4)} | Inversion Vector: {formatTri(steps.invTotal, 4)}
+                        </Typography>
+                    </TableCell>
+                </TableRow>
+            </TableBody>
+        </Table>
+    </TableContainer>
+);
+
+const TableFppWeights: React.FC<{
+    title: string;
+    itemLabel: string;
+    names: string[];
+    steps: FppResult;
+}> = ({ title, itemLabel, names, steps }) => (
+    <TableContainer component={Paper} sx={{ mb: 3 }}>
+        <Typography variant="h6" sx={{ p: 2, pb: 1, bgcolor: '#f3e5f5' }}>{title}</Typography>
+        <Table size="small">
+            <TableHead>
+                <TableRow>
+                    <TableCell>{itemLabel}</TableCell>
+                    <TableCell align="center">w* (Crisp Weight)</TableCell>
+                </TableRow>
+            </TableHead>
+            <TableBody>
+                {names.map((name, i) => (
+                    <TableRow key={i} sx={{ bgcolor: i % 2 ? '#fafafa' : 'inherit' }}>
+                        <TableCell>{name}</TableCell>
+                        <TableCell align="center" sx={{ fontWeight: 'bold', bgcolor: '#e3f2fd' }}>{formatNumber(steps.weights[i], 4)}</TableCell>
+                    </TableRow>
+                ))}
+                <TableRow sx={{ bgcolor: steps.lambda > 0 ? '#fff3e0' : '#ffebee' }}>
+                    <TableCell colSpan={2}>
+                        <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
+                            &lambda;* = {formatNumber(steps.lambda, 4)} ({steps.lambda > 0 ? 'судження сумісні' : 'судження суперечливі'}) | max &lambda; за {steps.judgments} судженнями: (m<sub>ij</sub> - l<sub>ij</sub>)&lambda;w<sub>j</sub> - w<sub>i</sub> + l<sub>ij</sub>w<sub>j</sub> &le; 0, (u<sub>ij</sub> - m<sub>ij</sub>)&lambda;w<sub>j</sub> + w<sub>i</sub> - u<sub>ij</sub>w<sub>j</sub> &le; 0
+                        </Typography>
+                        {steps.widened > 0 && (
+                            <Typography variant="body2" color="text.secondary">
+                                {fppWidenedNote(steps.widened)}
+                            </Typography>
+                        )}
+                    </TableCell>
+                </TableRow>
+            </TableBody>
+        </Table>
+    </TableContainer>
+);
+
+const TableRatingWeights: React.FC<{
+    title: string;
+    names: string[];
+    rating: AltRating;
+    steps: RatingResult;
+    defuzzifier: Defuzzifier;
+}> = ({ title, names, rating, steps, defuzzifier }) => {
+    const fuzzy = rating.mode === 'linguistic';
+    return (
+        <TableContainer component={Paper} sx={{ mb: 3 }}>
+            <Typography variant="h6" sx={{ p: 2, pb: 1, bgcolor: '#f3e5f5' }}>{title}</Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ px: 2, pb: 1 }}>Оцінювання: {ratingSummary(rating)}</Typography>
+            <Table size="small">
+                <TableHead>
+                    <TableRow>
+                        <TableCell>Альтернатива</TableCell>
+                        <TableCell align="center">{fuzzy ? 'Оцінка' : 'Значення'}</TableCell>
+                        <TableCell align="center">{fuzzy ? 'S (l, m, u)' : 'S (нормалізоване)'}</TableCell>
+                        {fuzzy && <TableCell align="center">w = S &otimes; (&sum;S)<sup>-1</sup></TableCell>}
+                        {fuzzy && <TableCell align="center">M = {defuzzifier.formulaLabel}</TableCell>}
+                        <TableCell align="center">N (Normalized)</TableCell>
+                    </TableRow>
+                </TableHead>
+                <TableBody>
+                    {names.map((name, i) => (
+                        <TableRow key={i} sx={{ bgcolor: i % 2 ? '#fafafa' : 'inherit' }}>
+                            <TableCell>{name}</TableCell>
+                            <TableCell align="center">{ratingInputLabel(rating, i)}</TableCell>
+                            <TableCell align="center">{fuzzy ? formatTri(steps.scores[i]) : formatNumber(steps.scores[i].m, 4)}</TableCell>
+                            {fuzzy && <TableCell align="center">{formatTri(steps.fuzzyWeights[i])}</TableCell>}
+                            {fuzzy && <TableCell align="center">{formatNumber(steps.defuzzified[i], 4)}</TableCell>}
+                            <TableCell align="center" sx={{ fontWeight: 'bold', bgcolor: '#e3f2fd' }}>{formatNumber(steps.weights[i], 4)}</TableCell>
+                        </TableRow>
+                    ))}
+                </TableBody>
+            </Table>
+        </TableContainer>
+    );
+};
+
+const TableFuzzyGlobalScores: React.FC<{
+    criteriaNames: string[];
+    altNames: string[];
+    critFuzzyWeights: TriangularNumber[];
+    fuzzyGlobalScores: TriangularNumber[];
+}> = ({ criteriaNames, altNames, critFuzzyWeights, fuzzyGlobalScores }) => {
+    const indices = FUZZY_RANKING_METHODS.map(m => fuzzyRankingIndex(fuzzyGlobalScores, m.id));
+
+    return (
+        <TableContainer component={Paper} sx={{ mb: 3 }}>
+            <Typography variant="h6" sx={{ p: 2, pb: 1, bgcolor: '#e3f2fd' }}>Нечіткі глобальні оцінки (S = &sum; W<sub>j</sub> &otimes; w<sub>ij</sub>)</Typography>
+            <Table size="small">
+                <TableHead>
+                    <TableRow>
+                        <TableCell>Альтернатива</TableCell>
+                        <TableCell align="center">S (Fuzzy Score)</TableCell>
+                        {FUZZY_RANKING_METHODS.map(m => (
+                            <TableCell key={m.id} align="center">{m.label}</TableCell>
+                        ))}
+                    </TableRow>
+                </TableHead>
+                <TableBody>
+                    {altNames.map((name, i) => (
+                        <TableRow key={i} sx={{ bgcolor: i % 2 ? '#fafafa' : 'inherit' }}>
+                            <TableCell>{name}</TableCell>
+                            <TableCell align="center">{formatTri(fuzzyGlobalScores[i], 4)}</TableCell>
+                            {indices.map((index, mIdx) => (
+                                <TableCell key={mIdx} align="center">{formatNumber(index[i], 4)}</TableCell>
+                            ))}
+                        </TableRow>
+                    ))}
+                    <TableRow sx={{ bgcolor: '#fff3e0' }}>
+                        <TableCell colSpan={FUZZY_RANKING_METHODS.length + 2}>
+                            <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
+                                Нечіткі ваги критеріїв (W): {criteriaNames.map((name, cIdx) => `${name.split('(')[0].trim()} = ${formatTri(critFuzzyWeights[cIdx], 4)}`).join('; ')}
+                            </Typography>
+                        </TableCell>
+                    </TableRow>
+                </TableBody>
+            </Table>
+        </TableContainer>
+    );
+};
+
+const TableConsistency: React.FC<{
+    matrixNames: string[];
+    consistency: ConsistencyResult[];
+}> = ({ matrixNames, consistency }) => (
+    <TableContainer component={Paper} sx={{ mb: 3 }}>
+        <Typography variant="h6" sx={{ p: 2, pb: 1, bgcolor: '#e3f2fd' }}>Узгодженість матриць попарних порівнянь (CI / CR)</Typography>
+        <Table size="small">
+            <TableHead>
+                <TableRow>
+                    <TableCell>Матриця</TableCell>
+                    <TableCell align="center">n</TableCell>
+                    <TableCell align="center">&lambda;max</TableCell>
+                    <TableCell align="center">CI = (&lambda;max - n) / (n - 1)</TableCell>
+                    <TableCell align="center">CR = CI / RI</TableCell>
+                    <TableCell align="center">CR<sub>m</sub> (Gogus–Boucher)</TableCell>
+                    <TableCell align="center">CR<sub>g</sub> (Gogus–Boucher)</TableCell>
+                    <TableCell align="center">Статус</TableCell>
+                </TableRow>
+            </TableHead>
+            <TableBody>
+                {matrixNames.map((name, i) => {
+                    const c = consistency[i];
+                    return (
+                        <TableRow key={i} sx={{ bgcolor: c.isConsistent ? 'inherit' : '#ffebee' }}>
+                            <TableCell>{name}</TableCell>
+                            <TableCell align="center">{c.n}</TableCell>
+                            <TableCell align="center">{formatNumber(c.lambdaMax)}</TableCell>
+                            <TableCell align="center">{formatNumber(c.ci)}</TableCell>
+                            <TableCell align="center" sx={{ fontWeight: 'bold' }}>{formatNumber(c.cr)}</TableCell>
+                            <TableCell align="center">{formatNumber(c.crM)}</TableCell>
+                            <TableCell align="center">{formatNumber(c.crG)}</TableCell>
+                            <TableCell align="center">
+                                <Chip size="small" color={c.isConsistent ? 'success' : 'error'} label={c.isConsistent ? 'Узгоджена' : 'Неузгоджена'} />
+                            </TableCell>
+                        </TableRow>
+                    );
+                })}
+            </TableBody>
+        </Table>
+    </TableContainer>
+);
+
+const TableAltWeightsCombined: React.FC<{
+    criteriaNames: string[];
+    altNames: string[];
+    critNormWeights: number[];
+    altLocalWeights: number[][];
+    globalScores: number[];
+    tableNumber: number;
+    critWeightsLabel: string;
+}> = ({ criteriaNames, altNames, critNormWeights, altLocalWeights, globalScores, tableNumber, critWeightsLabel }) => (
+    <TableContainer component={Paper} sx={{ mb: 3 }}>
+        <Typography variant="h6" sx={{ p: 2, pb: 1, bgcolor: '#e3f2fd' }}>Таблиця {tableNumber} & {tableNumber + 1}. Фінальні результати</Typography>
+        <Table size="small">
+            <TableHead>
+                <TableRow>
+                    <TableCell rowSpan={2}>Критерій</TableCell>
+                    <TableCell rowSpan={2} align="center">{critWeightsLabel}</TableCell>
+                    <TableCell colSpan={altNames.length} align="center">Ваги альтернатив N (Таблиця {tableNumber})</TableCell>
+                </TableRow>
+                <TableRow>
+                    {altNames.map((name, i) => (
+                       <TableCell key={i} align="center">{name}</TableCell>
+                    ))}
+                </TableRow>
+            </TableHead>
+            <TableBody>
+                {criteriaNames.map((cName, cIdx) => (
+                    <TableRow key={cIdx}>
+                        <TableCell>{cName}</TableCell>
+                        <TableCell align="center">{formatNumber(critNormWeights[cIdx], 4)}</TableCell>
+                        {altNames.map((_, aIdx) => (
+                           <TableCell key={aIdx} align="center">{formatNumber(altLocalWeights[cIdx][aIdx], 4)}</TableCell>
+                        ))}
+                    </TableRow>
+                ))}
+                <TableRow sx={{ bgcolor: '#e0f7fa' }}>
+                    <TableCell colSpan={2} sx={{ fontWeight: 'bold' }}>Total Score (S) - Таблиця {tableNumber + 1}</TableCell>
+                    {altNames.map((_, aIdx) => (
+                       <TableCell key={aIdx} align="center" sx={{ fontWeight: 'bold' }}>{formatNumber(globalScores[aIdx], 4)}</TableCell>
+                    ))}
+                </TableRow>
+                <TableRow>
+                     <TableCell colSpan={5}>
+                        <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
+                            Приклад розрахунку S<sub>1</sub> (Company A) за формулою S = &sum; N<sub>j</sub> &middot; N<sub>1j</sub> : {criteriaNames.map((_, cIdx) => `${formatNumber(critNormWeights[cIdx], 4)} \u00B7 ${formatNumber(altLocalWeights[cIdx][0], 4)}`).join(' + ')} = {formatNumber(globalScores[0], 4)}
+                        </Typography>
+                     </TableCell>
+                </TableRow>
+            </TableBody>
+        </Table>
+    </TableContainer>
+  );
+
+// Local weight of every node within its parent and the global weight along the path from the goal
+const TableHierarchyWeights: React.FC<{
+    hierarchy: CriterionNode;
+    nodes: Array<{ node: CriterionNode; derivation: WeightDerivation }>;
+}> = ({ hierarchy, nodes }) => {
+    const localWeights = Object.fromEntries(nodes.map(({ node, derivation }) => [node.id, derivation.weights]));
+    const rows: Array<{ node: CriterionNode; depth: number; local: number; global: number }> = [];
+    const walk = (node: CriterionNode, depth: number, global: number) => {
+        node.children.forEach((child, i) => {
+            const local = localWeights[node.id][i];
+            rows.push({ node: child, depth, local, global: global * local });
+            walk(child, depth + 1, global * local);
+        });
+    };
+    walk(hierarchy, 0, 1);
+
+    return (
+        <TableContainer component={Paper} sx={{ mb: 3 }}>
+            <Typography variant="h6" sx={{ p: 2, pb: 1, bgcolor: '#e3f2fd' }}>Ієрархія критеріїв: локальні та глобальні ваги</Typography>
+            <Table size="small">
+                <TableHead>
+                    <TableRow>
+                        <TableCell>Критерій</TableCell>
+                        <TableCell align="center">Локальна вага</TableCell>
+                        <TableCell align="center">Глобальна вага</TableCell>
+                    </TableRow>
+                </TableHead>
+                <TableBody>
+                    {rows.map(({ node, depth, local, global }) => (
+                        <TableRow key={node.id} sx={{ bgcolor: node.children.length === 0 ? 'inherit' : '#fafafa' }}>
+                            <TableCell sx={{ pl: 2 + depth * 4, fontWeight: node.children.length === 0 ? 'normal' : 'bold' }}>{node.name}</TableCell>
+                            <TableCell align="center">{formatNumber(local, 4)}</TableCell>
+                            <TableCell align="center" sx={{ fontWeight: node.children.length === 0 ? 'bold' : 'normal' }}>{formatNumber(global, 4)}</TableCell>
+                        </TableRow>
+                    ))}
+                </TableBody>
+            </Table>
+        </TableContainer>
+    );
+};
+
+const TableAggregatedMatrix: React.FC<{
+    title: string;
+    items: string[];
+    matrix: MatrixCell[][];
+}> = ({ title, items, matrix }) => (
+    <TableContainer component={Paper} sx={{ mb: 3 }}>
+        <Typography variant="h6" sx={{ p: 2, pb: 1, bgcolor: '#e8eaf6' }}>{title}</Typography>
+        <Table size="small">
+            <TableHead>
+                <TableRow>
+                    <TableCell>Vs.</TableCell>
+                    {items.map((item, idx) => <TableCell key={idx} align="center">{item.split('(')[0].trim()}</TableCell>)}
+                </TableRow>
+            </TableHead>
+            <TableBody>
+                {items.map((item, r) => (
+                    <TableRow key={r}>
+                        <TableCell sx={{ fontWeight: 'bold' }}>{item.split('(')[0].trim()}</TableCell>
+                        {matrix[r].map((cell, c) => (
+                            <TableCell key={c} align="center" sx={{ fontSize: '0.8rem', bgcolor: r === c ? '#f5f5f5' : 'inherit' }}>{formatTri(cell.tri, 3)}</TableCell>
+                        ))}
+                    </TableRow>
+                ))}
+            </TableBody>
+        </Table>
+    </TableContainer>
+);
+
+const TableExpertRankings: React.FC<{
+    altNames: string[];
+    experts: Expert[];
+    expertResults: ModelResults[];
+    groupRanked: ModelResults['ranked'];
+}> = ({ altNames, experts, expertResults, groupRanked }) => {
+    const groupOrder = groupRanked.map(item => item.idx);
+    const expertOrders = expertResults.map(res => res.ranked.map(item => item.idx));
+    const w = kendallW(expertOrders);
+    const consensus = w >= 0.7 ? { label: 'високий', color: 'success' as const } : w >= 0.5 ? { label: 'помірний', color: 'warning' as const } : { label: 'низький', color: 'error' as const };
+    const weights = normalizedExpertWeights(experts);
+
+    return (
+        <TableContainer component={Paper} sx={{ mb: 3 }}>
+            <Box sx={{ p: 2, pb: 1, bgcolor: '#e3f2fd', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <Typography variant="h6">Ранжування за експертами</Typography>
+                <Chip color={consensus.color} label={`Kendall's W = ${formatNumber(w, 3)} (${consensus.label} консенсус)`} />
+            </Box>
+            <Table size="small">
+                <TableHead>
+                    <TableRow>
+                        <TableCell>Альтернатива</TableCell>
+                        {experts.map((e, i) => (
+                            <TableCell key={e.id} align="center">{e.name}<br />(вага {formatNumber(weights[i], 3)})</TableCell>
+                        ))}
+                        <TableCell align="center" sx={{ bgcolor: '#c8e6c9' }}>Група</TableCell>
+                    </TableRow>
+                </TableHead>
+                <TableBody>
+                    {altNames.map((name, altIdx) => {
+                        const groupRank = groupOrder.indexOf(altIdx) + 1;
+                        return (
+                            <TableRow key={altIdx}>
+                                <TableCell>{name}</TableCell>
+                                {expertResults.map((res, eIdx) => {
+                                    const rank = expertOrders[eIdx].indexOf(altIdx) + 1;
+                                    const item = res.ranked[rank - 1];
+                                    return (
+                                        <TableCell key={eIdx} align="center" sx={{ bgcolor: rank !== groupRank ? '#fff8e1' : 'inherit' }}>
+                                            {rank} ({formatNumber(item.score)})
+                                        </TableCell>
+                                    );
+                                })}
+                                <TableCell align="center" sx={{ fontWeight: 'bold', bgcolor: '#e8f5e9' }}>{groupRank} ({formatNumber(groupRanked[groupRank - 1].score)})</TableCell>
+                            </TableRow>
+                        );
+                    })}
+                    <TableRow sx={{ bgcolor: '#fff3e0' }}>
+                        <TableCell sx={{ fontWeight: 'bold' }}>Spearman &rho; з груповим</TableCell>
+                        {expertOrders.map((order, eIdx) => (
+                            <TableCell key={eIdx} align="center" sx={{ fontWeight: 'bold' }}>{formatNumber(spearmanRho(order, groupOrder), 3)}</TableCell>
+                        ))}
+                        <TableCell />
+                    </TableRow>
+                </TableBody>
+            </Table>
+        </TableContainer>
+    );
+};
 
-  const validate = useCallback((currentTerms: LinguisticTerm[]): Record<string, { [key: string]: string }> => {
-    const newErrors: Record<string, { [key: string]: string }> = {};
-    const shortNames = new Set<string>();
-    const values = new Set<number>();
+const TableRankReversal: React.FC<{
+    altNames: string[];
+    hierarchy: CriterionNode;
+    matrices: HierarchyMatrices;
+    options: ModelOptions;
+    baseRanked: ModelResults['ranked'];
+}> = ({ altNames, hierarchy, matrices, options, baseRanked }) => {
+    const [withDuplicates, setWithDuplicates] = useState(false);
+    const active = useMemo(
+        () => rankReversalScenarios(hierarchy, matrices, altNames, options, baseRanked, withDuplicates),
+        [hierarchy, matrices, altNames, options, baseRanked, withDuplicates]
+    );
+    const shortName = (idx: number) => altNames[idx].split('(')[0].trim();
+    const scenarioLabel = (sc: RankReversalScenario) => sc.kind === 'remove' ? `без ${shortName(sc.altIdx)}` : `з копією ${shortName(sc.altIdx)}`;
+    const flipsOf = (a: number, b: number) => active.filter(sc => sc.reversedPairs.some(([x, y]) => (x === a && y === b) || (x === b && y === a)));
+    const unstable = active.filter(sc => sc.reversedPairs.length > 0);
 
-    currentTerms.forEach(term => {
-        const termErrors: { [key: string]: string } = {};
-        if (term.shortName.trim() === '') termErrors.shortName = "Обов'язково";
-        else if (shortNames.has(term.shortName.trim())) termErrors.shortName = "Дублікат";
-        shortNames.add(term.shortName.trim());
+    return (
+        <TableContainer component={Paper} sx={{ mb: 3 }}>
+            <Box sx={{ p: 2, pb: 1, bgcolor: '#e3f2fd', display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap' }}>
+                <Typography variant="h6">Перевірка реверсу рангів (rank reversal)</Typography>
+                <FormControlLabel
+                    control={<Switch size="small" checked={withDuplicates} onChange={(e) => setWithDuplicates(e.target.checked)} />}
+                    label="Також додавати копію кожної альтернативи"
+                />
+            </Box>
+            <Table size="small">
+                <TableHead>
+                    <TableRow>
+                        <TableCell />
+                        {altNames.map((_, b) => <TableCell key={b} align="center">{shortName(b)}</TableCell>)}
+                    </TableRow>
+                </TableHead>
+                <TableBody>
+                    {altNames.map((name, a) => (
+                        <TableRow key={a}>
+                            <TableCell sx={{ fontWeight: 'bold' }}>{name}</TableCell>
+                            {altNames.map((_, b) => {
+                                if (a === b) return <TableCell key={b} align="center" sx={{ bgcolor: '#f5f5f5' }}>—</TableCell>;
+                                const flips = flipsOf(a, b);
+                                return (
+                                    <TableCell key={b} align="center" sx={{ bgcolor: flips.length > 0 ? '#ffebee' : '#e8f5e9' }}>
+                                        {flips.length > 0 ? (
+                                            <Tooltip title={flips.map(scenarioLabel).join(', ')}>
+                                                <span>реверс ({flips.length})</span>
+                                            </Tooltip>
+                                        ) : 'стабільна'}
+                                    </TableCell>
+                                );
+                            })}
+                        </TableRow>
+                    ))}
+                    <TableRow sx={{ bgcolor: '#fff3e0' }}>
+                        <TableCell colSpan={altNames.length + 1}>
+                            <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
+                                {active.length === 0
+                                    ? 'Для перевірки вилученням потрібно щонайменше 3 альтернативи.'
+                                    : unstable.length === 0
+                                        ? `Відносний порядок усіх пар зберігається у ${active.length} сценаріях.`
+                                        : `Порядок змінюється у ${unstable.length} з ${active.length} сценаріїв: ${unstable.map(sc => `${scenarioLabel(sc)} (${sc.reversedPairs.map(([x, y]) => `${shortName(x)}/${shortName(y)}`).join(', ')})`).join('; ')}.`}
+                            </Typography>
+                        </TableCell>
+                    </TableRow>
+                </TableBody>
+            </Table>
+        </TableContainer>
+    );
+};
 
-        if (values.has(term.value)) termErrors.value = "Дублікат";
-        values.add(term.value);
+const ExpertSelector: React.FC<{
+  experts: Expert[];
+  activeIndex: number;
+  onChange: (index: number) => void;
+}> = ({ experts, activeIndex, onChange }) => (
+  <TextField
+    select
+    size="small"
+    label="Судження експерта"
+    value={Math.min(activeIndex, experts.length - 1)}
+    onChange={(e) => onChange(Number(e.target.value))}
+    sx={{ minWidth: 280, alignSelf: 'flex-start' }}
+  >
+    {experts.map((e, idx) => <MenuItem key={e.id} value={idx}>{e.name}</MenuItem>)}
+  </TextField>
+);
 
-        const { l, m, u } = term.tri;
-        if (l > m) termErrors.l = "l ≤ m";
-        if (m > u) termErrors.m = "m ≤ u";
-        
-        if (Object.keys(termErrors).length > 0) newErrors[term.id] = termErrors;
-    });
-    return newErrors;
-  }, []);
 
-  const handleChange = (idx: number, field: keyof TriangularNumber | 'shortName' | 'name' | 'value', val: string) => {
-    const newTerms = [...localTerms];
-    const newTerm = { ...newTerms[idx] };
-    if (field === 'l' || field === 'm' || field === 'u') {
-        const num = parseFloat(val);
-        newTerm.tri = { ...newTerm.tri, [field]: isNaN(num) ? 0 : num };
-    } else if (field === 'value') {
-        const num = parseInt(val, 10);
-        newTerm.value = isNaN(num) ? 0 : num;
-    } else {
-        (newTerm as any)[field] = val;
-    }
-    newTerms[idx] = newTerm;
-    setLocalTerms(newTerms);
-  };
-  
-  const handleSave = () => {
-    const newErrors = validate(localTerms);
-    if (Object.keys(newErrors).length > 0) {
-        setErrors(newErrors);
-        return;
-    }
-    onSave(localTerms);
-    onClose();
+// --- Analysis Views ---
+
+const AlphaCutAnalysis: React.FC<{
+  altNames: string[];
+  hierarchy: CriterionNode;
+  critMatrices: Record<string, MatrixCell[][]>;
+  altMatrices: MatrixCell[][][];
+  altScores: Array<TriangularNumber[] | null>;
+}> = ({ altNames, hierarchy, critMatrices, altMatrices, altScores }) => {
+  const [chartLambda, setChartLambda] = useState(0.5);
+  const shortName = (idx: number) => altNames[idx].split('(')[0].trim();
+
+  const grid = useMemo(() => ALPHA_LEVELS.map(alpha => OPTIMISM_LEVELS.map(lambda => {
+    const scores = alphaCutScores(hierarchy, critMatrices, altMatrices, altScores, alpha, lambda);
+    return { scores, order: rankOrder(scores) };
+  })), [hierarchy, critMatrices, altMatrices, altScores]);
+
+  // At α = 1 every judgment collapses to m, so λ no longer matters
+  const referenceLeader = grid[grid.length - 1][0].order[0];
+  const leaderChanges = grid.flat().filter(point => point.order[0] !== referenceLeader).length;
+
+  const chartData = useMemo(() => {
+    const scoresByAlpha = ALPHA_LEVELS.map(alpha => alphaCutScores(hierarchy, critMatrices, altMatrices, altScores, alpha, chartLambda));
+    return {
+      datasets: altNames.map((name, altIdx) => {
+        const color = `hsl(${(altIdx * 360) / altNames.length}, 70%, 45%)`;
+        return {
+          label: name,
+          data: ALPHA_LEVELS.map((alpha, aIdx) => ({ x: alpha, y: scoresByAlpha[aIdx][altIdx] })),
+          borderColor: color,
+          backgroundColor: color,
+          borderWidth: 2,
+          tension: 0,
+        };
+      }),
+    };
+  }, [altNames, hierarchy, critMatrices, altMatrices, altScores, chartLambda]);
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    scales: {
+      x: { type: 'linear' as const, min: 0, max: 1, title: { display: true, text: 'α' } },
+      y: { title: { display: true, text: 'Глобальна вага (Score)' } },
+    },
+    plugins: {
+      legend: { position: 'bottom' as const },
+      tooltip: { callbacks: { label: (ctx: any) => `${ctx.dataset.label}: α=${formatNumber(ctx.parsed.x, 2)}, S=${formatNumber(ctx.parsed.y)}` } },
+    },
   };
-  
+
+  return (
+    <Stack spacing={3}>
+      <TableContainer component={Paper}>
+        <Typography variant="h6" sx={{ p: 2, pb: 1, bgcolor: '#e3f2fd' }}>Ранжування за рівнем α та індексом оптимізму λ (eigenvector AHP)</Typography>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>α \ λ</TableCell>
+              {OPTIMISM_LEVELS.map(lambda => <TableCell key={lambda} align="center">λ = {formatNumber(lambda, 2)}</TableCell>)}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {ALPHA_LEVELS.map((alpha, aIdx) => (
+              <TableRow key={alpha}>
+                <TableCell sx={{ fontWeight: 'bold' }}>{formatNumber(alpha, 1)}</TableCell>
+                {grid[aIdx].map((point, lIdx) => (
+                  <TableCell key={lIdx} align="center" sx={{ bgcolor: point.order[0] !== referenceLeader ? '#ffebee' : 'inherit', whiteSpace: 'nowrap' }}>
+                    {point.order.map(shortName).join(' ≻ ')}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+            <TableRow sx={{ bgcolor: '#fff3e0' }}>
+              <TableCell colSpan={OPTIMISM_LEVELS.length + 1}>
+                <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
+                  {leaderChanges === 0
+                    ? `Лідер ${shortName(referenceLeader)} стабільний для всіх ${grid.flat().length} комбінацій (α, λ).`
+                    : `Лідер відрізняється від ${shortName(referenceLeader)} (α = 1) у ${leaderChanges} з ${grid.flat().length} комбінацій (α, λ).`}
+                </Typography>
+              </TableCell>
+            </TableRow>
+          </TableBody>
+        </Table>
+      </TableContainer>
+      <Paper sx={{ p: 3 }}>
+        <Typography variant="h6" gutterBottom>Глобальні ваги альтернатив залежно від α</Typography>
+        <Box sx={{ width: 320, px: 1 }}>
+          <Typography variant="caption" color="text.secondary">λ (індекс оптимізму) = {formatNumber(chartLambda, 2)}</Typography>
+          <Slider size="small" min={0} max={1} step={0.05} value={chartLambda} onChange={(_, v) => setChartLambda(v as number)} />
+        </Box>
+        <Box sx={{ height: 360, width: '100%' }}>
+          <Line data={chartData} options={chartOptions} />
+        </Box>
+      </Paper>
+    </Stack>
+  );
+};
+
+const CrispAhpComparison: React.FC<{
+  criteriaNames: string[];
+  altNames: string[];
+  hierarchy: CriterionNode;
+  critMatrices: Record<string, MatrixCell[][]>;
+  altMatrices: MatrixCell[][][];
+  altScores: Array<TriangularNumber[] | null>;
+  fuzzyCritWeights: number[];
+  fuzzyAltWeights: number[][];
+  fuzzyRanked: Array<{ idx: number; score: number }>;
+  fuzzyRankingLabel?: string; // set in fuzzy aggregation mode, where fuzzyRanked carries this index instead of the score
+}> = ({ criteriaNames, altNames, hierarchy, critMatrices, altMatrices, altScores, fuzzyCritWeights, fuzzyAltWeights, fuzzyRanked, fuzzyRankingLabel }) => {
+  const crisp = useMemo(() => {
+    const nodes = getInternalNodes(hierarchy).map(node => ({ node, result: crispAhp(critMatrices[node.id]) }));
+    const localWeights = Object.fromEntries(nodes.map(({ node, result }) => [node.id, result.weights]));
+    const critWeights = propagateWeights(hierarchy, node => localWeights[node.id]);
+    const alts = altMatrices.map((mat, cIdx) => altScores[cIdx] ? crispRating(altScores[cIdx]) : crispAhp(mat));
+    const globalScores = altNames.map((_, altIdx) => critWeights.reduce((acc, w, cIdx) => acc + w * alts[cIdx].weights[altIdx], 0));
+    return { nodes, critWeights, alts, globalScores, order: rankOrder(globalScores) };
+  }, [hierarchy, critMatrices, altMatrices, altScores, altNames]);
+
+  const critCrispOrder = rankOrder(crisp.critWeights);
+  const critFuzzyOrder = rankOrder(fuzzyCritWeights);
+  const fuzzyOrder = fuzzyRanked.map(item => item.idx);
+  const fuzzyScoreOf = (altIdx: number) => fuzzyRanked.find(item => item.idx === altIdx)?.score ?? 0;
+  const diffColor = (d: number) => Math.abs(d) < 0.005 ? 'text.secondary' : d > 0 ? 'success.main' : 'error.main';
+  const highlight = '#fff8e1';
+
+  return (
+    <Stack spacing={3}>
+      <TableContainer component={Paper}>
+        <Typography variant="h6" sx={{ p: 2, pb: 1, bgcolor: '#e3f2fd' }}>Узгодженість чітких матриць Сааті (eigenvector)</Typography>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Матриця</TableCell>
+              <TableCell align="center">&lambda;max</TableCell>
+              <TableCell align="center">CI</TableCell>
+              <TableCell align="center">CR</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {[
+              ...crisp.nodes.map(({ node, result }) => ({ label: nodeMatrixLabel(node), res: result })),
+              ...crisp.alts.flatMap((result, cIdx) => altScores[cIdx] ? [] : [{ label: `Альтернативи: ${criteriaNames[cIdx]}`, res: result }]),
+            ].map(({ label, res }, i) => (
+              <TableRow key={i} sx={{ bgcolor: res.cr <= CONSISTENCY_THRESHOLD ? 'inherit' : '#ffebee' }}>
+                <TableCell>{label}</TableCell>
+                <TableCell align="center">{formatNumber(res.lambdaMax)}</TableCell>
+                <TableCell align="center">{formatNumber(res.ci)}</TableCell>
+                <TableCell align="center" sx={{ fontWeight: 'bold' }}>{formatNumber(res.cr)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <TableContainer component={Paper}>
+        <Typography variant="h6" sx={{ p: 2, pb: 1, bgcolor: '#e3f2fd' }}>Ваги критеріїв: чіткий AHP vs. нечіткий AHP</Typography>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Критерій</TableCell>
+              <TableCell align="center">Чіткий AHP (ранг)</TableCell>
+              <TableCell align="center">Нечіткий AHP (ранг)</TableCell>
+              <TableCell align="center">&Delta; (нечіткий - чіткий)</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {criteriaNames.map((name, cIdx) => {
+              const diff = fuzzyCritWeights[cIdx] - crisp.critWeights[cIdx];
+              const crispRank = critCrispOrder.indexOf(cIdx) + 1;
+              const fuzzyRank = critFuzzyOrder.indexOf(cIdx) + 1;
+              return (
+                <TableRow key={cIdx} sx={{ bgcolor: crispRank !== fuzzyRank ? highlight : 'inherit' }}>
+                  <TableCell>{name}</TableCell>
+                  <TableCell align="center">{formatNumber(crisp.critWeights[cIdx])} ({crispRank})</TableCell>
+                  <TableCell align="center">{formatNumber(fuzzyCritWeights[cIdx])} ({fuzzyRank})</TableCell>
+                  <TableCell align="center" sx={{ color: diffColor(diff), fontWeight: 'bold' }}>{diff > 0 ? '+' : ''}{formatNumber(diff)}</TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <TableContainer component={Paper}>
+        <Typography variant="h6" sx={{ p: 2, pb: 1, bgcolor: '#e3f2fd' }}>Локальні ваги альтернатив: чіткий / нечіткий</Typography>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Критерій</TableCell>
+              {altNames.map((name, aIdx) => <TableCell key={aIdx} align="center">{name}</TableCell>)}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {criteriaNames.map((name, cIdx) => {
+              const crispOrder = rankOrder(crisp.alts[cIdx].weights);
+              const fuzzyLocalOrder = rankOrder(fuzzyAltWeights[cIdx]);
+              return (
+                <TableRow key={cIdx}>
+                  <TableCell>{name}</TableCell>
+                  {altNames.map((_, aIdx) => (
+                    <TableCell key={aIdx} align="center" sx={{ bgcolor: crispOrder.indexOf(aIdx) !== fuzzyLocalOrder.indexOf(aIdx) ? highlight : 'inherit' }}>
+                      {formatNumber(crisp.alts[cIdx].weights[aIdx])} / {formatNumber(fuzzyAltWeights[cIdx][aIdx])}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Paper sx={{ p: 3, border: '2px solid #4caf50' }}>
+        <Typography variant="h6" gutterBottom align="center" color="success.main">Ранжування: чіткий AHP vs. нечіткий AHP</Typography>
+        <TableContainer>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Альтернатива</TableCell>
+                <TableCell align="center">Чіткий AHP: Score</TableCell>
+                <TableCell align="center">Чіткий AHP: Ранг</TableCell>
+                <TableCell align="center">Нечіткий AHP: {fuzzyRankingLabel ?? 'Score'}</TableCell>
+                <TableCell align="center">Нечіткий AHP: Ранг</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {altNames.map((name, aIdx) => {
+                const crispRank = crisp.order.indexOf(aIdx) + 1;
+                const fuzzyRank = fuzzyOrder.indexOf(aIdx) + 1;
+                return (
+                  <TableRow key={aIdx} sx={{ bgcolor: crispRank !== fuzzyRank ? highlight : 'inherit' }}>
+                    <TableCell>{name}</TableCell>
+                    <TableCell align="center">{formatNumber(crisp.globalScores[aIdx])}</TableCell>
+                    <TableCell align="center" sx={{ fontWeight: 'bold' }}>{crispRank}</TableCell>
+                    <TableCell align="center">{formatNumber(fuzzyScoreOf(aIdx))}</TableCell>
+                    <TableCell align="center" sx={{ fontWeight: 'bold', color: crispRank !== fuzzyRank ? 'error.main' : 'inherit' }}>{fuzzyRank}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </TableContainer>
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+          {crisp.order.every((altIdx, pos) => fuzzyOrder[pos] === altIdx)
+            ? 'Чіткий та нечіткий AHP дають однакове ранжування.'
+            : 'Ранжування відрізняються: виділені рядки змінили позицію.'}
+        </Typography>
+      </Paper>
+    </Stack>
+  );
+};
+
+
+const SensitivityAnalysis: React.FC<{
+  criteriaNames: string[];
+  altNames: string[];
+  critNormWeights: number[];
+  altLocalWeights: number[][];
+  fuzzyRankingLabel?: string; // set in fuzzy aggregation mode, where the final ranking uses this index instead
+}> = ({ criteriaNames, altNames, critNormWeights, altLocalWeights, fuzzyRankingLabel }) => {
+  const [critIdx, setCritIdx] = useState(0);
+  const [weight, setWeight] = useState(critNormWeights[0]);
+  const shortName = (name: string) => name.split('(')[0].trim();
+  const selected = Math.min(critIdx, criteriaNames.length - 1);
+
+  // Another criterion or new weights (method or judgment changed): the slider starts again from the current weight
   useEffect(() => {
-    if (open) setErrors(validate(localTerms));
-  }, [localTerms, open, validate]);
+    setWeight(critNormWeights[selected]);
+  }, [critNormWeights, selected]);
 
-  const addTerm = () => {
-    const nextValue = localTerms.length > 0 ? Math.max(...localTerms.map(t => t.value)) + 1 : 1;
-    setLocalTerms(prev => [...prev, {
-        id: crypto.randomUUID(),
-        name: `New Term ${nextValue}`,
-        shortName: `T${nextValue}`,
-        value: nextValue,
-        tri: { l: nextValue, m: nextValue + 1, u: nextValue + 2 }
-    }]);
-  };
+  const lines = useMemo(() => sensitivityLines(critNormWeights, altLocalWeights, selected), [critNormWeights, altLocalWeights, selected]);
+  const crossovers = useMemo(() => rankCrossovers(lines), [lines]);
+  const flips = useMemo(
+    () => criteriaNames.map((_, j) => leaderFlips(sensitivityLines(critNormWeights, altLocalWeights, j), critNormWeights[j])),
+    [criteriaNames, critNormWeights, altLocalWeights]
+  );
 
-  const deleteTerm = (id: string) => {
-    setLocalTerms(prev => prev.filter(t => t.id !== id));
+  const scores = lines.map(line => scoreAt(line, weight));
+  const order = rankOrder(scores);
+  const rescaled = rescaleWeights(critNormWeights, selected, weight);
+  const baseLeader = rankOrder(lines.map(line => scoreAt(line, critNormWeights[selected])))[0];
+
+  const chartData = useMemo(() => {
+    const yMax = Math.max(...lines.flatMap(line => [scoreAt(line, 0), scoreAt(line, 1)]));
+    return {
+      datasets: [
+        ...altNames.map((name, altIdx) => {
+          const color = `hsl(${(altIdx * 360) / altNames.length}, 70%, 45%)`;
+          return {
+            label: name,
+            data: [0, 1].map(x => ({ x, y: scoreAt(lines[altIdx], x) })),
+            borderColor: color,
+            backgroundColor: color,
+            borderWidth: 2,
+            pointRadius: 0,
+          };
+        }),
+        {
+          label: 'Зміна рангу',
+          data: crossovers.map(p => ({ x: p.x, y: p.y })),
+          showLine: false,
+          pointStyle: 'crossRot' as const,
+          pointRadius: 7,
+          borderColor: '#d32f2f',
+          backgroundColor: '#d32f2f',
+          borderWidth: 2,
+        },
+        {
+          label: 'Обрана вага',
+          data: [{ x: weight, y: 0 }, { x: weight, y: yMax }],
+          borderColor: '#616161',
+          backgroundColor: '#616161',
+          borderDash: [6, 4],
+          borderWidth: 1,
+          pointRadius: 0,
+        },
+      ],
+    };
+  }, [altNames, lines, crossovers, weight]);
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    scales: {
+      x: { type: 'linear' as const, min: 0, max: 1, title: { display: true, text: `Вага критерію: ${shortName(criteriaNames[selected])}` } },
+      y: { min: 0, title: { display: true, text: 'Глобальна вага (Score)' } },
+    },
+    plugins: {
+      legend: { position: 'bottom' as const },
+      tooltip: { callbacks: { label: (ctx: any) => `${ctx.dataset.label}: w=${formatNumber(ctx.parsed.x, 3)}, S=${formatNumber(ctx.parsed.y)}` } },
+    },
   };
-  
-  const hasGlobalError = Object.keys(errors).length > 0 || localTerms.length < 2;
+
+  const formatFlip = (flip: LeaderFlip | null) => flip
+    ? `${formatNumber(flip.weight)} (${flip.delta > 0 ? '+' : ''}${formatNumber(flip.delta)}) → ${shortName(altNames[flip.newLeader])}`
+    : '—';
 
   return (
-    <Dialog open={open} onClose={onClose} maxWidth="lg" fullWidth>
-      <DialogTitle>Редагування лінгвістичних термів</DialogTitle>
-      <DialogContent>
-        <Stack spacing={3}>
-            <TermChart terms={localTerms} />
-            <TableContainer component={Paper} variant="outlined">
-              <Table size="small">
-                <TableHead>
-                  <TableRow>
-                    <TableCell>Значення</TableCell>
-                    <TableCell>Коротка назва</TableCell>
-                    <TableCell>Визначення</TableCell>
-                    <TableCell align="center">L (мін)</TableCell>
-                    <TableCell align="center">M (сер)</TableCell>
-                    <TableCell align="center">U (макс)</TableCell>
-                    <TableCell align="center">Дія</TableCell>
+    <Stack spacing={3}>
+      {fuzzyRankingLabel && (
+        <Alert severity="info">
+          Аналіз виконується для чіткої моделі (S = &sum; N<sub>j</sub> &middot; N<sub>kj</sub>). Фінальне ранжування у нечіткому режимі
+          визначає індекс «{fuzzyRankingLabel}», тож лідер тут може відрізнятися від лідера на вкладці результатів.
+        </Alert>
+      )}
+      <Paper sx={{ p: 3 }}>
+        <Box sx={{ display: 'flex', gap: 3, alignItems: 'center', flexWrap: 'wrap', mb: 2 }}>
+          <TextField select size="small" label="Критерій" value={selected} onChange={(e) => setCritIdx(Number(e.target.value))} sx={{ minWidth: 280 }}>
+            {criteriaNames.map((name, j) => <MenuItem key={j} value={j}>{name}</MenuItem>)}
+          </TextField>
+          <Box sx={{ width: 360, px: 1 }}>
+            <Typography variant="caption" color="text.secondary">
+              Вага = {formatNumber(weight)} (початкова {formatNumber(critNormWeights[selected])})
+            </Typography>
+            <Slider size="small" min={0} max={1} step={0.005} value={weight} onChange={(_, v) => setWeight(v as number)} />
+          </Box>
+          <Button size="small" onClick={() => setWeight(critNormWeights[selected])}>Скинути вагу</Button>
+        </Box>
+        <Box sx={{ height: 380, width: '100%' }}>
+          <Line data={chartData} options={chartOptions} />
+        </Box>
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+          Інші ваги змінюються пропорційно, сума ваг залишається 1. Оцінки — чіткі глобальні ваги S = &sum; N<sub>j</sub> &middot; N<sub>kj</sub>.
+          {crossovers.length > 0 && ` Ранжування змінюється при вагах: ${crossovers.map(p => `${formatNumber(p.x, 3)} (${shortName(altNames[p.a])} / ${shortName(altNames[p.b])})`).join(', ')}.`}
+        </Typography>
+      </Paper>
+
+      <Grid container spacing={3}>
+        <Grid size={{ xs: 12, lg: 5 }}>
+          <TableContainer component={Paper}>
+            <Typography variant="h6" sx={{ p: 2, pb: 1, bgcolor: '#e3f2fd' }}>Ранжування при обраній вазі</Typography>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell align="center">Ранг</TableCell>
+                  <TableCell>Альтернатива</TableCell>
+                  <TableCell align="right">Score</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {order.map((altIdx, pos) => (
+                  <TableRow key={altIdx} sx={{ bgcolor: pos === 0 && altIdx !== baseLeader ? '#ffebee' : pos === 0 ? '#e8f5e9' : 'inherit' }}>
+                    <TableCell align="center" sx={{ fontWeight: 'bold' }}>{pos + 1}</TableCell>
+                    <TableCell>{altNames[altIdx]}</TableCell>
+                    <TableCell align="right">{formatNumber(scores[altIdx])}</TableCell>
                   </TableRow>
-                </TableHead>
-                <TableBody>
-                  {localTerms.map((term, idx) => (
-                    <TableRow key={term.id}>
-                      <TableCell>
-                        <TextField size="small" type="number" value={term.value} onChange={e => handleChange(idx, 'value', e.target.value)} sx={{ width: 60 }} 
-                           error={!!errors[term.id]?.value} helperText={errors[term.id]?.value}
-                        />
-                      </TableCell>
-                      <TableCell>
-                        <TextField size="small" value={term.shortName} onChange={e => handleChange(idx, 'shortName', e.target.value)} sx={{ width: 80 }} 
-                           error={!!errors[term.id]?.shortName} helperText={errors[term.id]?.shortName}
-                        />
-                      </TableCell>
-                      <TableCell>
-                        <TextField size="small" value={term.name} onChange={e => handleChange(idx, 'name', e.target.value)} fullWidth />
-                      </TableCell>
-                      <TableCell>
-                        <TextField size="small" type="number" value={term.tri.l} onChange={e => handleChange(idx, 'l', e.target.value)} sx={{ width: 80 }} 
-                           error={!!errors[term.id]?.l} helperText={errors[term.id]?.l}
-                        />
-                      </TableCell>
-                      <TableCell>
-                        <TextField size="small" type="number" value={term.tri.m} onChange={e => handleChange(idx, 'm', e.target.value)} sx={{ width: 80 }} 
-                           error={!!errors[term.id]?.m} helperText={errors[term.id]?.m}
-                        />
-                      </TableCell>
-                      <TableCell>
-                        <TextField size="small" type="number" value={term.tri.u} onChange={e => handleChange(idx, 'u', e.target.value)} sx={{ width: 80 }} 
-                           error={!!errors[term.id]?.u} helperText={errors[term.id]?.u}
-                        />
+                ))}
+                <TableRow sx={{ bgcolor: '#fff3e0' }}>
+                  <TableCell colSpan={3}>
+                    <Typography variant="body2">
+                      Ваги: {criteriaNames.map((name, j) => `${shortName(name)} = ${formatNumber(rescaled[j], 3)}`).join('; ')}
+                    </Typography>
+                  </TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Grid>
+        <Grid size={{ xs: 12, lg: 7 }}>
+          <TableContainer component={Paper}>
+            <Typography variant="h6" sx={{ p: 2, pb: 1, bgcolor: '#e3f2fd' }}>Мінімальна зміна ваги, що змінює лідера</Typography>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Критерій</TableCell>
+                  <TableCell align="center">Вага</TableCell>
+                  <TableCell align="center">Зменшення до (&Delta;) → лідер</TableCell>
+                  <TableCell align="center">Збільшення до (&Delta;) → лідер</TableCell>
+                  <TableCell align="center">min |&Delta;|</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {criteriaNames.map((name, j) => {
+                  const { down, up } = flips[j];
+                  const deltas = [down, up].filter((f): f is LeaderFlip => f !== null).map(f => Math.abs(f.delta));
+                  const minDelta = deltas.length > 0 ? Math.min(...deltas) : null;
+                  return (
+                    <TableRow key={j} hover selected={j === selected} onClick={() => setCritIdx(j)} sx={{ cursor: 'pointer' }}>
+                      <TableCell>{name}</TableCell>
+                      <TableCell align="center">{formatNumber(critNormWeights[j])}</TableCell>
+                      <TableCell align="center">{formatFlip(down)}</TableCell>
+                      <TableCell align="center">{formatFlip(up)}</TableCell>
+                      <TableCell align="center" sx={{ fontWeight: 'bold', color: minDelta !== null && minDelta < 0.05 ? 'error.main' : 'inherit' }}>
+                        {minDelta !== null ? formatNumber(minDelta) : 'стабільний'}
                       </TableCell>
-                      <TableCell align="center">
-                          <IconButton onClick={() => deleteTerm(term.id)} disabled={localTerms.length <= 2}>
-                              <DeleteIcon fontSize="small"/>
-                          </IconButton>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Grid>
+      </Grid>
+    </Stack>
+  );
+};
+
+const MonteCarloAnalysis: React.FC<{
+  altNames: string[];
+  hierarchy: CriterionNode;
+  critMatrices: Record<string, MatrixCell[][]>;
+  altMatrices: MatrixCell[][][];
+  altScores: Array<TriangularNumber[] | null>;
+}> = ({ altNames, hierarchy, critMatrices, altMatrices, altScores }) => {
+  const [iterations, setIterations] = useState(5000);
+  const [seed, setSeed] = useState(1);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const shortName = (idx: number) => altNames[idx].split('(')[0].trim();
+
+  const model = useMemo(() => buildSimulationModel(hierarchy, critMatrices, altMatrices, altScores), [hierarchy, critMatrices, altMatrices, altScores]);
+
+  const stopWorker = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setProgress(null);
+  };
+
+  // Judgments changed: a finished run no longer describes the model. The cleanup only ends the worker,
+  // so unmounting does not touch state
+  useEffect(() => {
+    setResult(null);
+    setProgress(null);
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+    };
+  }, [model]);
+
+  const handleRun = () => {
+    stopWorker();
+    setError(null);
+    setProgress(0);
+    const worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    worker.onmessage = (event: MessageEvent<SimulationMessage>) => {
+      if (event.data.type === 'progress') {
+        setProgress(event.data.done);
+        return;
+      }
+      setResult(event.data.result);
+      stopWorker();
+    };
+    worker.onerror = (event) => {
+      setError(event.message || 'Помилка обчислення у фоновому потоці');
+      stopWorker();
+    };
+    worker.postMessage({ model, iterations, seed });
+  };
+
+  const ranks = altNames.map((_, rank) => rank);
+  const chartData = result && {
+    labels: altNames.map((_, altIdx) => shortName(altIdx)),
+    datasets: ranks.map(rank => ({
+      label: `Ранг ${rank + 1}`,
+      data: result.rankAcceptability.map(row => row[rank] * 100),
+      backgroundColor: `hsl(${120 - (rank * 120) / Math.max(1, ranks.length - 1)}, 55%, 55%)`,
+    })),
+  };
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    scales: {
+      x: { stacked: true },
+      y: { stacked: true, min: 0, max: 100, title: { display: true, text: 'Ймовірність, %' } },
+    },
+    plugins: {
+      legend: { position: 'bottom' as const },
+      tooltip: { callbacks: { label: (ctx: any) => `${ctx.dataset.label}: ${formatNumber(ctx.parsed.y, 1)}%` } },
+    },
+  };
+
+  const order = result ? rankOrder(result.meanScores) : [];
+
+  return (
+    <Stack spacing={3}>
+      <Paper sx={{ p: 3 }}>
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}>
+          <TextField select size="small" label="Ітерацій" value={iterations} onChange={(e) => setIterations(Number(e.target.value))} disabled={progress !== null} sx={{ minWidth: 140 }}>
+            {SIMULATION_ITERATIONS.map(n => <MenuItem key={n} value={n}>{n}</MenuItem>)}
+          </TextField>
+          <TextField size="small" type="number" label="Seed" value={seed} onChange={(e) => setSeed(Math.max(0, Math.floor(Number(e.target.value) || 0)))} disabled={progress !== null} sx={{ width: 120 }} />
+          {progress !== null ? (
+            <>
+              <Button variant="outlined" color="error" onClick={stopWorker}>Зупинити</Button>
+              <Typography variant="body2" color="text.secondary">
+                Виконано {progress} з {iterations} ({formatNumber((progress / iterations) * 100, 0)}%)
+              </Typography>
+            </>
+          ) : (
+            <Button variant="contained" startIcon={<PlayArrowIcon />} onClick={handleRun}>Запустити симуляцію</Button>
+          )}
+        </Box>
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+          Кожна ітерація вибирає чіткі судження з трикутного розподілу Tri(l, m, u) (або трапецієподібного для трапецій) кожної клітинки над діагоналлю
+          (симетричні клітинки отримують 1/x), обчислює ваги головним власним вектором та глобальні ваги альтернатив.
+          Для критеріїв з прямими значеннями чи лінгвістичними оцінками вибираються самі оцінки альтернатив і нормалізуються до суми 1.
+          Однаковий seed відтворює той самий результат.
+        </Typography>
+        {error && <Alert severity="error" sx={{ mt: 2 }}>{error}</Alert>}
+      </Paper>
+
+      {result && chartData && (
+        <>
+          <Paper sx={{ p: 3 }}>
+            <Typography variant="h6" gutterBottom>Індекси прийнятності рангів ({result.iterations} ітерацій)</Typography>
+            <Box sx={{ height: 360, width: '100%' }}>
+              <Bar data={chartData} options={chartOptions} />
+            </Box>
+          </Paper>
+          <TableContainer component={Paper}>
+            <Typography variant="h6" sx={{ p: 2, pb: 1, bgcolor: '#e3f2fd' }}>
+              Глобальні ваги з {formatNumber(SIMULATION_CONFIDENCE * 100, 0)}% довірчими інтервалами та ймовірності рангів
+            </Typography>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Альтернатива</TableCell>
+                  <TableCell align="center">Середнє Score</TableCell>
+                  <TableCell align="center">Довірчий інтервал</TableCell>
+                  {ranks.map(rank => <TableCell key={rank} align="center">P(ранг {rank + 1})</TableCell>)}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {order.map(altIdx => (
+                  <TableRow key={altIdx}>
+                    <TableCell>{altNames[altIdx]}</TableCell>
+                    <TableCell align="center">{formatNumber(result.meanScores[altIdx])}</TableCell>
+                    <TableCell align="center" sx={{ whiteSpace: 'nowrap' }}>
+                      [{formatNumber(result.lowerScores[altIdx])}; {formatNumber(result.upperScores[altIdx])}]
+                    </TableCell>
+                    {ranks.map(rank => (
+                      <TableCell key={rank} align="center" sx={{ fontWeight: result.rankAcceptability[altIdx][rank] >= 0.5 ? 'bold' : 'normal' }}>
+                        {formatNumber(result.rankAcceptability[altIdx][rank] * 100, 1)}%
                       </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            </TableContainer>
-            <Button startIcon={<AddIcon />} onClick={addTerm} sx={{ alignSelf: 'flex-start' }}>Додати новий терм</Button>
-            {localTerms.length < 2 && (
-                <FormHelperText error sx={{ textAlign: 'center' }}>Потрібно мінімум 2 терми для порівнянь.</FormHelperText>
-            )}
-        </Stack>
-      </DialogContent>
-      <DialogActions>
-        <Button onClick={onClose}>Скасувати</Button>
-        <Button onClick={handleSave} variant="contained" disabled={hasGlobalError}>Зберегти</Button>
-      </DialogActions>
-    </Dialog>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </>
+      )}
+    </Stack>
   );
 };
 
-const PairwiseMatrixInput: React.FC<{
-  items: string[];
-  matrix: MatrixCell[][];
-  onChange: (r: number, c: number, termValue: number) => void;
-  terms: LinguisticTerm[];
-  title: string;
-}> = ({ items, matrix, onChange, terms, title }) => {
-
-  const options = useMemo(() => {
-    const sortedTerms = [...terms].sort((a, b) => a.value - b.value);
-    const opts: Array<{ value: number; label: string; tri: TriangularNumber }> = [];
-    
-    // 1. Standard Terms
-    sortedTerms.forEach(t => opts.push({ value: t.value, label: t.shortName, tri: t.tri }));
-
-    // 2. Inverse Terms (skip 1)
-    sortedTerms.filter(t => t.value > 1).forEach(t => {
-        opts.push({ value: 1 / t.value, label: `Inverse ${t.shortName}`, tri: fuzzyInverse(t.tri) });
-    });
-    return opts;
-  }, [terms]);
-  
-  const getCurrentSelectValue = (cell: MatrixCell): number => cell.saatyValue || 1;
+// Hybrid FAHP–fuzzy TOPSIS: FAHP supplies the criteria weights, TOPSIS ranks the alternatives from their ratings
+const TopsisAnalysis: React.FC<{
+  criteriaNames: string[];
+  altNames: string[];
+  columns: TopsisCriterion[];
+  onColumnChange: (cIdx: number, column: TopsisCriterion) => void;
+  weightSource: TopsisWeightSource;
+  onWeightSourceChange: (source: TopsisWeightSource) => void;
+  critFuzzyWeights: TriangularNumber[];
+  critNormWeights: number[];
+  fahpRanked: ModelResults['ranked'];
+}> = ({ criteriaNames, altNames, columns, onColumnChange, weightSource, onWeightSourceChange, critFuzzyWeights, critNormWeights, fahpRanked }) => {
+  const weights = useMemo(
+    () => weightSource === 'fuzzy' ? critFuzzyWeights : critNormWeights.map(w => ({ l: w, m: w, u: w })),
+    [weightSource, critFuzzyWeights, critNormWeights]
+  );
+  const topsis = useMemo(() => fuzzyTopsis(columns, weights), [columns, weights]);
+  const order = rankOrder(topsis.closeness);
+  const fahpOrder = fahpRanked.map(item => item.idx);
+  const rho = spearmanRho(fahpOrder, order);
+  const shortName = (name: string) => name.split('(')[0].trim();
+  const highlight = '#fff8e1';
 
-  return (
-    <Paper sx={{ p: 2, mb: 3, overflowX: 'auto' }}>
-      <Typography variant="h6" gutterBottom color="primary">{title}</Typography>
-      <Table size="small" sx={{ minWidth: 650 }}>
+  const triTable = (title: string, matrix: TriangularNumber[][], footer?: Array<{ label: string; values: TriangularNumber[] }>) => (
+    <TableContainer component={Paper}>
+      <Typography variant="h6" sx={{ p: 2, pb: 1, bgcolor: '#e3f2fd' }}>{title}</Typography>
+      <Table size="small">
         <TableHead>
           <TableRow>
-            <TableCell sx={{ backgroundColor: "#fff" }}>Vs.</TableCell>
-            {items.map((item, idx) => (
-              <TableCell key={idx} align="center" sx={{ maxWidth: 100, whiteSpace: "nowrap", overflow: "hidden", textOverflow: "ellipsis" }}>
-                {item.split('(')[0].trim()}
-              </TableCell>
-            ))}
+            <TableCell>Альтернатива</TableCell>
+            {criteriaNames.map((name, cIdx) => <TableCell key={cIdx} align="center">{shortName(name)}</TableCell>)}
           </TableRow>
         </TableHead>
         <TableBody>
-          {items.map((rowItem, r) => (
-            <TableRow key={r}>
-              <TableCell component="th" scope="row" sx={{ fontWeight: "bold", maxWidth: 150 }}>
-                {rowItem.split('(')[0].trim()}
-              </TableCell>
-              {items.map((_colItem, c) => {
-                const isDiagonal = r === c;
-                const isLowerTriangle = r > c;
-                const cell = matrix[r][c];
-
-                if (isDiagonal) {
-                  return <TableCell key={c} align="center" sx={{ bgcolor: "#f5f5f5" }}>(1,1,1)</TableCell>;
-                }
-
-                if (isLowerTriangle) {
-                  return (
-                    <TableCell key={c} align="center" sx={{ bgcolor: "#fafafa", color: "text.secondary", fontSize: "0.8rem" }}>
-                      {formatTriInverse(cell.tri)}
-                    </TableCell>
-                  );
-                }
-
-                return (
-                  <TableCell key={c} align="center">
-                    <Select
-                      value={getCurrentSelectValue(cell)}
-                      onChange={(e) => onChange(r, c, Number(e.target.value))}
-                      size="small"
-                      fullWidth
-                      sx={{ fontSize: "0.85rem" }}
-                      renderValue={(selected) => {
-                         const opt = options.find(o => Math.abs(o.value - selected) < 0.0001);
-                         return opt ? (selected >= 1 ? formatTri(opt.tri) : formatTriInverse(opt.tri)) : formatNumber(selected);
-                      }}
-                    >
-                      {options.map(opt => <MenuItem key={opt.value} value={opt.value}>{opt.label}</MenuItem>)}
-                    </Select>
-                  </TableCell>
-                );
-              })}
+          {altNames.map((name, aIdx) => (
+            <TableRow key={aIdx} sx={{ bgcolor: aIdx % 2 ? '#fafafa' : 'inherit' }}>
+              <TableCell>{name}</TableCell>
+              {matrix.map((col, cIdx) => <TableCell key={cIdx} align="center" sx={{ whiteSpace: 'nowrap' }}>{formatTri(col[aIdx])}</TableCell>)}
+            </TableRow>
+          ))}
+          {footer?.map(({ label, values }) => (
+            <TableRow key={label} sx={{ bgcolor: '#fff3e0' }}>
+              <TableCell sx={{ fontWeight: 'bold' }}>{label}</TableCell>
+              {values.map((t, cIdx) => <TableCell key={cIdx} align="center" sx={{ fontWeight: 'bold', whiteSpace: 'nowrap' }}>{formatTri(t)}</TableCell>)}
             </TableRow>
           ))}
         </TableBody>
       </Table>
-    </Paper>
+    </TableContainer>
   );
-};
 
+  return (
+    <Stack spacing={3}>
+      <Paper sx={{ p: 3 }}>
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap', mb: 2 }}>
+          <TextField select size="small" label="Ваги критеріїв" value={weightSource} onChange={(e) => onWeightSourceChange(e.target.value as TopsisWeightSource)} sx={{ minWidth: 320 }}>
+            {TOPSIS_WEIGHT_SOURCES.map(w => <MenuItem key={w.id} value={w.id}>{w.label}</MenuItem>)}
+          </TextField>
+        </Box>
+        <Typography variant="body2" color="text.secondary">
+          Нечітка матриця рішень: кожна альтернатива отримує лінгвістичну оцінку за кожним критерієм.
+          Оцінки нормалізуються (вигода: x / max u; витрати: min l / x), зважуються вагами критеріїв FAHP,
+          а коефіцієнт близькості CC = d⁻ / (d* + d⁻) вимірює вершинні відстані до позитивного (FPIS) та негативного (FNIS) ідеальних рішень.
+        </Typography>
+      </Paper>
 
-// --- Result Tables ---
-
-const TableFuzzyWeights: React.FC<{
-  criteriaNames: string[];
-  critGeoMeans: TriangularNumber[];
-  critFuzzyWeights: TriangularNumber[];
-  sumCritGeoMeans: TriangularNumber;
-  invSumCrit: TriangularNumber;
-}> = ({ criteriaNames, critGeoMeans, critFuzzyWeights, sumCritGeoMeans, invSumCrit }) => (
-    <TableContainer component={Paper} sx={{ mb: 3 }}>
-        <Typography variant="h6" sx={{ p: 2, pb: 1, bgcolor: '#e3f2fd' }}>Таблиця 3. Геометричне середнє нечітких порівнянь (r)</Typography>
-        <Table size="small">
-            <TableHead>
-                <TableRow>
-                    <TableCell>Критерій</TableCell>
-                    <TableCell align="center">r (Geometric Mean)</TableCell>
-                </TableRow>
-            </TableHead>
-            <TableBody>
-                {criteriaNames.map((name, i) => (
-                    <TableRow key={i}>
-                        <TableCell>{name}</TableCell>
-                        <TableCell align="center">{formatTri(critGeoMeans[i])}</TableCell>
-                    </TableRow>
+      <TableContainer component={Paper} sx={{ maxHeight: 560 }}>
+        <Typography variant="h6" sx={{ p: 2, pb: 1, bgcolor: '#e3f2fd' }}>Нечітка матриця рішень</Typography>
+        <Table size="small" stickyHeader>
+          <TableHead>
+            <TableRow>
+              <TableCell>Альтернатива</TableCell>
+              {criteriaNames.map((name, cIdx) => (
+                <TableCell key={cIdx} align="center">
+                  <Typography variant="body2" sx={{ fontWeight: 'bold', mb: 1 }}>{shortName(name)}</Typography>
+                  <Select size="small" value={columns[cIdx].direction} onChange={(e) => onColumnChange(cIdx, { ...columns[cIdx], direction: e.target.value as CriterionDirection })}>
+                    {CRITERION_DIRECTIONS.map(d => <MenuItem key={d.id} value={d.id}>{d.label}</MenuItem>)}
+                  </Select>
+                </TableCell>
+              ))}
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {altNames.map((name, aIdx) => (
+              <TableRow key={aIdx}>
+                <TableCell sx={{ fontWeight: 'bold' }}>{aIdx + 1}. {name}</TableCell>
+                {columns.map((col, cIdx) => (
+                  <TableCell key={cIdx} align="center">
+                    <Select size="small" value={col.ratings[aIdx]} onChange={(e) => onColumnChange(cIdx, { ...col, ratings: col.ratings.map((id, i) => i === aIdx ? e.target.value : id) })} sx={{ minWidth: 90 }}>
+                      {RATING_TERMS.map(t => <MenuItem key={t.id} value={t.id}>{t.shortName} — {t.name}</MenuItem>)}
+                    </Select>
+                  </TableCell>
                 ))}
-            </TableBody>
+              </TableRow>
+            ))}
+          </TableBody>
         </Table>
-        <Typography variant="h6" sx={{ p: 2, pb: 1, bgcolor: '#e3f2fd', mt: 2 }}>Таблиця 4. Нечіткі ваги (w)</Typography>
+      </TableContainer>
+
+      {triTable('Нормалізована нечітка матриця рішень (r̃)', topsis.normalized)}
+      {triTable('Зважена нормалізована матриця (ṽ = r̃ ⊗ w̃) та ідеальні рішення', topsis.weighted, [
+        { label: 'w̃ (вага критерію)', values: weights },
+        { label: 'A* (FPIS)', values: topsis.positiveIdeal },
+        { label: 'A⁻ (FNIS)', values: topsis.negativeIdeal },
+      ])}
+
+      <TableContainer component={Paper}>
+        <Typography variant="h6" sx={{ p: 2, pb: 1, bgcolor: '#e3f2fd' }}>Відстані до ідеальних рішень та коефіцієнт близькості</Typography>
         <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Альтернатива</TableCell>
+              <TableCell align="center">d* = &sum; d(ṽ<sub>ij</sub>, A*<sub>j</sub>)</TableCell>
+              <TableCell align="center">d⁻ = &sum; d(ṽ<sub>ij</sub>, A⁻<sub>j</sub>)</TableCell>
+              <TableCell align="center">CC = d⁻ / (d* + d⁻)</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {order.map(aIdx => (
+              <TableRow key={aIdx}>
+                <TableCell>{altNames[aIdx]}</TableCell>
+                <TableCell align="center">{formatNumber(topsis.distPositive[aIdx])}</TableCell>
+                <TableCell align="center">{formatNumber(topsis.distNegative[aIdx])}</TableCell>
+                <TableCell align="center" sx={{ fontWeight: 'bold', bgcolor: '#e3f2fd' }}>{formatNumber(topsis.closeness[aIdx])}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </TableContainer>
+
+      <Paper sx={{ p: 3, border: '2px solid #4caf50' }}>
+        <Typography variant="h6" gutterBottom align="center" color="success.main">Ранжування: FAHP vs. FAHP–fuzzy TOPSIS</Typography>
+        <TableContainer>
+          <Table size="small">
             <TableHead>
-                <TableRow>
-                    <TableCell>Критерій</TableCell>
-                    <TableCell align="center">w (Fuzzy Weight)</TableCell>
-                </TableRow>
+              <TableRow>
+                <TableCell>Альтернатива</TableCell>
+                <TableCell align="center">FAHP: Score (ранг)</TableCell>
+                <TableCell align="center">TOPSIS: CC (ранг)</TableCell>
+              </TableRow>
             </TableHead>
             <TableBody>
-                {criteriaNames.map((name, i) => (
-                    <TableRow key={i}>
-                        <TableCell>{name}</TableCell>
-                        <TableCell align="center">{formatTri(critFuzzyWeights[i])}</TableCell>
-                    </TableRow>
-                ))}
-                <TableRow sx={{ bgcolor: '#fff3e0' }}>
-                    <TableCell colSpan={2}>
-                        <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
-                            Vector Sum (sr): {formatTri(sumCritGeoMeans, 3)}
-                        </Typography>
-                        <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
-                            Inversion Vector (isr): {formatTriInverse(invSumCrit)} = {formatTri(invSumCrit, 4)}
-                        </Typography>
-                    </TableCell>
-                </TableRow>
+              {fahpRanked.map((item, pos) => {
+                const topsisRank = order.indexOf(item.idx) + 1;
+                return (
+                  <TableRow key={item.idx} sx={{ bgcolor: topsisRank !== pos + 1 ? highlight : 'inherit' }}>
+                    <TableCell>{item.name}</TableCell>
+                    <TableCell align="center">{formatNumber(item.score)} ({pos + 1})</TableCell>
+                    <TableCell align="center">{formatNumber(topsis.closeness[item.idx])} ({topsisRank})</TableCell>
+                  </TableRow>
+                );
+              })}
             </TableBody>
-        </Table>
-    </TableContainer>
+          </Table>
+        </TableContainer>
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+          Кореляція рангів Спірмена &rho; = {formatNumber(rho, 3)}. Виділені рядки займають різні місця у двох ранжуваннях.
+        </Typography>
+      </Paper>
+    </Stack>
+  );
+};
+
+// --- Report ---
+
+const texTri = (t: TriangularNumber) => String.raw`\left(${fuzzyComponents(t).map(tx).join(String.raw`,\, `)}\right)`;
+
+const ReportMatrixTable: React.FC<{ title: string; items: string[]; matrix: MatrixCell[][]; consistency?: ConsistencyResult }> = ({ title, items, matrix, consistency }) => (
+  <Box sx={{ mb: 2, breakInside: 'avoid' }}>
+    <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
+      {title}{consistency && ` — CR = ${formatNumber(consistency.cr)}`}
+    </Typography>
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          <TableCell>Vs.</TableCell>
+          {items.map((item, i) => <TableCell key={i} align="center">{i + 1}. {item.split('(')[0].trim()}</TableCell>)}
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {matrix.map((row, r) => (
+          <TableRow key={r}>
+            <TableCell sx={{ fontWeight: 'bold' }}>{r + 1}. {items[r]}</TableCell>
+            {row.map((cell, c) => <TableCell key={c} align="center">{r > c ? formatTriInverse(cell.tri) : formatTri(cell.tri, 2)}</TableCell>)}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  </Box>
 );
 
-const TableNormalizedWeights: React.FC<{
-  criteriaNames: string[];
-  critFuzzyWeights: TriangularNumber[];
-  critNormWeights: number[];
-}> = ({ criteriaNames, critFuzzyWeights, critNormWeights }) => {
-    const critDefuzzified = critFuzzyWeights.map(w => centerOfArea(w));
-    const sumCritDefuzz = critDefuzzified.reduce((a, b) => a + b, 0);
+const ReportRatingTable: React.FC<{ title: string; items: string[]; rating: AltRating }> = ({ title, items, rating }) => (
+  <Box sx={{ mb: 2, breakInside: 'avoid' }}>
+    <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>{title} — {ratingSummary(rating)}</Typography>
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          <TableCell>Альтернатива</TableCell>
+          <TableCell align="center">{rating.mode === 'direct' ? 'Значення' : 'Оцінка'}</TableCell>
+          <TableCell align="center">S</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {ratingScores(rating).map((score, i) => (
+          <TableRow key={i}>
+            <TableCell sx={{ fontWeight: 'bold' }}>{i + 1}. {items[i]}</TableCell>
+            <TableCell align="center">{ratingInputLabel(rating, i)}</TableCell>
+            <TableCell align="center">{rating.mode === 'direct' ? formatNumber(score.m) : formatTri(score, 2)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  </Box>
+);
+
+// Eq. 2-6 (or the Chang / FPP / rating equivalents) with the numbers of one matrix substituted
+const ReportDerivation: React.FC<{
+  matrix: MatrixCell[][];
+  steps: WeightDerivation;
+  defuzzifier: Defuzzifier;
+  optimism: number;
+}> = ({ matrix, steps, defuzzifier, optimism }) => {
+  const n = matrix.length;
+  const idx = Array.from({ length: n }, (_, i) => i);
 
+  if (steps.method === 'chang') {
     return (
-        <TableContainer component={Paper} sx={{ mb: 3 }}>
-            <Typography variant="h6" sx={{ p: 2, pb: 1, bgcolor: '#e3f2fd' }}>Таблиця 5. Дефазифіковані ваги (M)</Typography>
-            <Table size="small">
-                <TableHead>
-                    <TableRow>
-                        <TableCell>Критерій</TableCell>
-                        <TableCell align="center">M (Defuzzified)</TableCell>
-                        <TableCell align="center">Формула (w)</TableCell>
-                    </TableRow>
-                </TableHead>
-                <TableBody>
-                    {criteriaNames.map((name, i) => (
-                        <TableRow key={i}>
-                            <TableCell>{name}</TableCell>
-                            <TableCell align="center">{formatNumber(critDefuzzified[i])}</TableCell>
-                            <TableCell align="center">
-                                ({formatNumber(critFuzzyWeights[i].l, 2)} + {formatNumber(critFuzzyWeights[i].m, 2)} + {formatNumber(critFuzzyWeights[i].u, 2)}) / 3
-                            </TableCell>
-                        </TableRow>
-                    ))}
-                </TableBody>
-            </Table>
-            <Typography variant="h6" sx={{ p: 2, pb: 1, bgcolor: '#e3f2fd', mt: 2 }}>Таблиця 6. Нормалізовані ваги (N)</Typography>
-            <Table size="small">
-                <TableHead>
-                    <TableRow>
-                        <TableCell>Критерій</TableCell>
-                        <TableCell align="center">N (Normalized)</TableCell>
-                        <TableCell align="center">Формула (M / &sum; M)</TableCell>
-                        <TableCell align="center">Сума (&sum; N)</TableCell>
-                    </TableRow>
-                </TableHead>
-                <TableBody>
-                    {criteriaNames.map((name, i) => (
-                        <TableRow key={i} sx={{ bgcolor: '#e3f2fd' }}>
-                            <TableCell>{name}</TableCell>
-                            <TableCell align="center" sx={{ fontWeight: 'bold' }}>{formatNumber(critNormWeights[i])}</TableCell>
-                            <TableCell align="center">{formatNumber(critDefuzzified[i], 4)} / {formatNumber(sumCritDefuzz, 4)}</TableCell>
-                            <TableCell align="center">{i === 0 ? formatNumber(critNormWeights.reduce((a, b) => a + b, 0)) : ''}</TableCell>
-                        </TableRow>
-                    ))}
-                </TableBody>
-            </Table>
-        </TableContainer>
+      <>
+        <BlockMath math={String.raw`\tilde S_i = \sum_{j=1}^{n} \tilde a_{ij} \otimes \Big[\sum_{i=1}^{n}\sum_{j=1}^{n} \tilde a_{ij}\Big]^{-1}, \quad \Big[\sum\sum \tilde a_{ij}\Big]^{-1} = ${texTri(steps.invTotal)}`} />
+        {idx.map(i => <BlockMath key={i} math={String.raw`\tilde S_{${i + 1}} = ${texTri(steps.rowSums[i])} \otimes ${texTri(steps.invTotal)} = ${texTri(steps.extents[i])}`} />)}
+        <BlockMath math={String.raw`d'(A_i) = \min_{k \ne i} V(\tilde S_i \ge \tilde S_k), \qquad W_i = \frac{d'(A_i)}{\sum_k d'(A_k)}`} />
+        {idx.map(i => (
+          <BlockMath key={i} math={String.raw`d'(A_{${i + 1}}) = \min\left(${idx.filter(k => k !== i).map(k => tx(steps.possibility[i][k])).join(',\\, ')}\right) = ${tx(steps.minDegrees[i])}, \quad W_{${i + 1}} = ${tx(steps.weights[i])}`} />
+        ))}
+      </>
     );
-};
-
-const TableAltNormalizedWeights: React.FC<{
-    criteriaName: string;
-    altNames: string[];
-    matrix: MatrixCell[][];
-    localWeights: number[];
-    critIndex: number;
-}> = ({ criteriaName, altNames, matrix, localWeights, critIndex }) => {
-    const geoMeans = matrix.map(row => fuzzyGeoMean(row.map(c => c.tri)));
-    const sumGeo = fuzzySum(geoMeans);
-    const invSum = fuzzyInverse(sumGeo);
-    const fuzzyWeights = geoMeans.map(r => fuzzyMultiply(r, invSum));
-    const defuzzified = fuzzyWeights.map(w => centerOfArea(w));
+  }
 
+  if (steps.method === 'fpp') {
     return (
-        <TableContainer component={Paper} sx={{ mb: 3 }} key={critIndex}>
-            <Typography variant="h6" sx={{ p: 2, pb: 1, bgcolor: '#f3e5f5' }}>
-                Критерій: {criteriaName} (Таблиці: {7 + 5*critIndex} - {11 + 5*critIndex})
-            </Typography>
-            <Table size="small">
-                <TableHead>
-                    <TableRow>
-                        <TableCell>Альтернатива</TableCell>
-                        <TableCell align="center">r (Geo Mean)</TableCell>
-                        <TableCell align="center">w (Fuzzy Weight)</TableCell>
-                        <TableCell align="center">M (Defuzzified)</TableCell>
-                        <TableCell align="center">N (Normalized)</TableCell>
-                    </TableRow>
-                </TableHead>
-                <TableBody>
-                    {altNames.map((name, i) => (
-                        <TableRow key={i} sx={{ bgcolor: i % 2 ? '#fafafa' : 'inherit' }}>
-                            <TableCell>{name}</TableCell>
-                            <TableCell align="center">{formatTri(geoMeans[i], 4)}</TableCell>
-                            <TableCell align="center">{formatTri(fuzzyWeights[i], 4)}</TableCell>
-                            <TableCell align="center">{formatNumber(defuzzified[i], 4)}</TableCell>
-                            <TableCell align="center" sx={{ fontWeight: 'bold', bgcolor: '#e3f2fd' }}>{formatNumber(localWeights[i], 4)}</TableCell>
-                        </TableRow>
-                    ))}
-                    <TableRow sx={{ bgcolor: '#fff3e0' }}>
-                        <TableCell colSpan={5}>
-                            <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
-                                Vector Sum (sr): {formatTri(sumGeo, 4)} | Inversion Vector (isr): {formatTri(invSum, 4)}
-                            </Typography>
-                        </TableCell>
-                    </TableRow>
-                </TableBody>
-            </Table>
-        </TableContainer>
+      <>
+        <BlockMath math={String.raw`\max \lambda \quad \text{s.t.} \quad (m_{ij} - l_{ij})\lambda w_j - w_i + l_{ij} w_j \le 0, \;\; (u_{ij} - m_{ij})\lambda w_j + w_i - u_{ij} w_j \le 0, \;\; \sum_i w_i = 1`} />
+        <BlockMath math={String.raw`\lambda^* = ${tx(steps.lambda)}, \qquad w^* = \left(${steps.weights.map(w => tx(w)).join(',\\, ')}\right)`} />
+        {steps.widened > 0 && <Typography variant="body2" color="text.secondary">{fppWidenedNote(steps.widened)}</Typography>}
+      </>
+    );
+  }
+
+  const sumM = steps.defuzzified.reduce((a, b) => a + b, 0);
+  const defuzzification = (
+    <>
+      <BlockMath math={String.raw`(5)\quad M_i = ${defuzzifier.latexLabel}${defuzzifier.optimismLabel ? String.raw`, \quad ${defuzzifier.optimismLabel.split(' ')[0]} = ${f2(optimism)}` : ''}`} />
+      {idx.map(i => <BlockMath key={i} math={String.raw`M_{${i + 1}} = ${defuzzifier.latex(steps.fuzzyWeights[i], optimism)} = ${tx(steps.defuzzified[i])}`} />)}
+      <BlockMath math={String.raw`(6)\quad N_i = \frac{M_i}{\sum_{k=1}^{n} M_k}, \qquad \sum_k M_k = ${tx(sumM)}`} />
+      <BlockMath math={idx.map(i => String.raw`N_{${i + 1}} = \tfrac{${tx(steps.defuzzified[i])}}{${tx(sumM)}} = ${tx(steps.weights[i])}`).join(String.raw`, \quad `)} />
+    </>
+  );
+
+  if (steps.method === 'rating') {
+    const invSum = fuzzyInverse(fuzzySum(steps.scores));
+    return (
+      <>
+        <BlockMath math={String.raw`\tilde w_i = \tilde S_i \otimes \Big(\sum_{k=1}^{n} \tilde S_k\Big)^{-1}, \quad \Big(\sum_k \tilde S_k\Big)^{-1} = ${texTri(invSum)}`} />
+        {idx.map(i => <BlockMath key={i} math={String.raw`\tilde w_{${i + 1}} = ${texTri(steps.scores[i])} \otimes ${texTri(invSum)} = ${texTri(steps.fuzzyWeights[i])}`} />)}
+        {defuzzification}
+      </>
     );
+  }
+
+  const product = (component: (t: TriangularNumber) => number, i: number) => String.raw`\sqrt[${n}]{${matrix[i].map(c => tx(component(c.tri))).join(' \\cdot ')}}`;
+  const products = (i: number) => {
+    const components: Array<(t: TriangularNumber) => number> = [t => t.l, t => t.m, ...(isTrapezoidal(steps.geoMeans[i]) ? [modalEnd] : []), t => t.u];
+    return components.map(component => product(component, i)).join(String.raw`,\, `);
+  };
+  return (
+    <>
+      <BlockMath math={String.raw`(2)\quad \tilde r_i = \Big(\prod_{j=1}^{n} \tilde a_{ij}\Big)^{1/n}`} />
+      {idx.map(i => <BlockMath key={i} math={String.raw`\tilde r_{${i + 1}} = \left(${products(i)}\right) = ${texTri(steps.geoMeans[i])}`} />)}
+      <BlockMath math={String.raw`(3)\quad \tilde r_1 \oplus \dots \oplus \tilde r_{${n}} = ${texTri(steps.sumGeo)}, \qquad \big(\tilde r_1 \oplus \dots \oplus \tilde r_{${n}}\big)^{-1} = \left(${[...fuzzyComponents(steps.sumGeo)].reverse().map(v => String.raw`\tfrac{1}{${tx(v)}}`).join(String.raw`,\, `)}\right) = ${texTri(steps.invSum)}`} />
+      <BlockMath math={String.raw`(4)\quad \tilde w_i = \tilde r_i \otimes \big(\tilde r_1 \oplus \dots \oplus \tilde r_n\big)^{-1}`} />
+      {idx.map(i => <BlockMath key={i} math={String.raw`\tilde w_{${i + 1}} = ${texTri(steps.geoMeans[i])} \otimes ${texTri(steps.invSum)} = ${texTri(steps.fuzzyWeights[i])}`} />)}
+      {defuzzification}
+    </>
+  );
 };
 
-const TableAltWeightsCombined: React.FC<{
-    criteriaNames: string[];
-    altNames: string[];
-    critNormWeights: number[];
-    altLocalWeights: number[][];
-    globalScores: number[];
-}> = ({ criteriaNames, altNames, critNormWeights, altLocalWeights, globalScores }) => (
-    <TableContainer component={Paper} sx={{ mb: 3 }}>
-        <Typography variant="h6" sx={{ p: 2, pb: 1, bgcolor: '#e3f2fd' }}>Таблиця 32 & 33. Фінальні результати</Typography>
-        <Table size="small">
-            <TableHead>
-                <TableRow>
-                    <TableCell rowSpan={2}>Критерій</TableCell>
-                    <TableCell rowSpan={2} align="center">Ваги N (Таблиця 6)</TableCell>
-                    <TableCell colSpan={altNames.length} align="center">Ваги альтернатив N (Таблиця 32)</TableCell>
-                </TableRow>
+const ReportView: React.FC<{
+  projectName: string;
+  methodLabel: string;
+  scales: TermScale[]; // the scales the matrices use
+  hierarchy: CriterionNode;
+  altNames: string[];
+  matrices: HierarchyMatrices;
+  altRatings: Record<string, AltRating>;
+  numExperts: number;
+  results: ModelResults;
+  consistency: { nodes: Record<string, ConsistencyResult>; alts: ConsistencyResult[] };
+  inconsistentMatrices: string[];
+  defuzzifier: Defuzzifier;
+  optimism: number;
+  aggregationMode: AggregationMode;
+  fuzzyRankingMethod: FuzzyRankingMethod;
+}> = ({ projectName, methodLabel, scales, hierarchy, altNames, matrices, altRatings, numExperts, results, consistency, inconsistentMatrices, defuzzifier, optimism, aggregationMode, fuzzyRankingMethod }) => {
+  const internalNodes = getInternalNodes(hierarchy);
+  const leaves = getLeaves(hierarchy);
+  const sectionSx = { p: 3, mb: 3, breakInside: 'avoid-page' } as const;
+
+  // Global weight of every leaf as the product of local weights along its path
+  const pathWeights: Array<{ leaf: CriterionNode; factors: number[] }> = [];
+  const localWeights = Object.fromEntries(results.nodes.map(({ node, derivation }) => [node.id, derivation.weights]));
+  const walk = (node: CriterionNode, factors: number[]) => node.children.forEach((child, i) => {
+    const next = [...factors, localWeights[node.id][i]];
+    if (child.children.length === 0) pathWeights.push({ leaf: child, factors: next });
+    else walk(child, next);
+  });
+  walk(hierarchy, []);
+
+  return (
+    <Box className="report">
+      <Paper sx={sectionSx}>
+        <Typography variant="h4" gutterBottom>{projectName}</Typography>
+        <Typography variant="subtitle1">Мета: {hierarchy.name}</Typography>
+        <Typography variant="body2" color="text.secondary">
+          {new Date().toLocaleDateString()} · Метод: {methodLabel} · Дефазифікація: {defuzzifier.label}
+          {defuzzifier.optimismLabel ? ` (${defuzzifier.optimismLabel} = ${f2(optimism)})` : ''}
+          {' · '}Агрегація: {aggregationMode === 'fuzzy' ? `нечітка, ${FUZZY_RANKING_METHODS.find(m => m.id === fuzzyRankingMethod)?.label}` : 'чітка'}
+          {numExperts > 1 ? ` · Експертів: ${numExperts} (агреговані матриці)` : ''}
+        </Typography>
+      </Paper>
+
+      <Paper sx={sectionSx}>
+        <Typography variant="h5" gutterBottom>1. {scales.length > 1 ? 'Лінгвістичні шкали' : 'Лінгвістична шкала'}</Typography>
+        {scales.map(({ id, name, terms }) => (
+          <Box key={id}>
+            {scales.length > 1 && <Typography variant="h6" sx={{ mt: 2 }}>{name}</Typography>}
+            <TermChart terms={terms} />
+            <Table size="small" sx={{ mt: 2 }}>
+              <TableHead>
                 <TableRow>
-                    {altNames.map((name, i) => (
-                       <TableCell key={i} align="center">{name}</TableCell>
-                    ))}
+                  <TableCell>Значення</TableCell>
+                  <TableCell>Терм</TableCell>
+                  <TableCell>Визначення</TableCell>
+                  <TableCell align="center">(l, m, u)</TableCell>
                 </TableRow>
-            </TableHead>
-            <TableBody>
-                {criteriaNames.map((cName, cIdx) => (
-                    <TableRow key={cIdx}>
-                        <TableCell>{cName}</TableCell>
-                        <TableCell align="center">{formatNumber(critNormWeights[cIdx], 4)}</TableCell>
-                        {altNames.map((_, aIdx) => (
-                           <TableCell key={aIdx} align="center">{formatNumber(altLocalWeights[cIdx][aIdx], 4)}</TableCell>
-                        ))}
-                    </TableRow>
+              </TableHead>
+              <TableBody>
+                {[...terms].sort((a, b) => a.value - b.value).map(t => (
+                  <TableRow key={t.id}>
+                    <TableCell>{t.value}</TableCell>
+                    <TableCell>{t.shortName}</TableCell>
+                    <TableCell>{t.name}</TableCell>
+                    <TableCell align="center">{formatTri(t.tri, 2)}</TableCell>
+                  </TableRow>
                 ))}
-                <TableRow sx={{ bgcolor: '#e0f7fa' }}>
-                    <TableCell colSpan={2} sx={{ fontWeight: 'bold' }}>Total Score (S) - Таблиця 33</TableCell>
-                    {altNames.map((_, aIdx) => (
-                       <TableCell key={aIdx} align="center" sx={{ fontWeight: 'bold' }}>{formatNumber(globalScores[aIdx], 4)}</TableCell>
-                    ))}
-                </TableRow>
-                <TableRow>
-                     <TableCell colSpan={5}>
-                        <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
-                            Приклад розрахунку S<sub>1</sub> (Company A) за формулою S = &sum; N<sub>j</sub> &middot; N<sub>1j</sub> : {criteriaNames.map((_, cIdx) => `${formatNumber(critNormWeights[cIdx], 4)} \u00B7 ${formatNumber(altLocalWeights[cIdx][0], 4)}`).join(' + ')} = {formatNumber(globalScores[0], 4)}
-                        </Typography>
-                     </TableCell>
-                </TableRow>
-            </TableBody>
+              </TableBody>
+            </Table>
+          </Box>
+        ))}
+      </Paper>
+
+      <Paper sx={sectionSx}>
+        <Typography variant="h5" gutterBottom>2. {Object.keys(altRatings).length > 0 ? 'Матриці попарних порівнянь та оцінки альтернатив' : 'Матриці попарних порівнянь'}</Typography>
+        {internalNodes.map((node, nIdx) => (
+          <ReportMatrixTable key={node.id} title={`Таблиця ${matrixTableNumber(nIdx)}. ${nodeMatrixLabel(node)}`} items={node.children.map(c => c.name)} matrix={matrices.critMatrices[node.id]} consistency={consistency.nodes[node.id]} />
+        ))}
+        {leaves.map((leaf, cIdx) => altRatings[leaf.id] ? (
+          <ReportRatingTable key={leaf.id} title={`Таблиця ${matrixTableNumber(internalNodes.length + cIdx)}. Альтернативи за критерієм: ${leaf.name}`} items={altNames} rating={altRatings[leaf.id]} />
+        ) : (
+          <ReportMatrixTable key={leaf.id} title={`Таблиця ${matrixTableNumber(internalNodes.length + cIdx)}. Альтернативи відносно критерію: ${leaf.name}`} items={altNames} matrix={matrices.altMatrices[leaf.id]} consistency={consistency.alts[cIdx]} />
+        ))}
+      </Paper>
+
+      <Paper sx={{ ...sectionSx, breakInside: 'auto' }}>
+        <Typography variant="h5" gutterBottom>3. Кроки розрахунку</Typography>
+        {results.nodes.map(({ node, derivation }) => (
+          <Box key={node.id} sx={{ mb: 3 }}>
+            <Typography variant="h6">{nodeMatrixLabel(node)}</Typography>
+            <ReportDerivation matrix={matrices.critMatrices[node.id]} steps={derivation} defuzzifier={defuzzifier} optimism={optimism} />
+          </Box>
+        ))}
+        {internalNodes.length > 1 && (
+          <Box sx={{ mb: 3 }}>
+            <Typography variant="h6">Глобальні ваги критеріїв</Typography>
+            {pathWeights.map(({ leaf, factors }) => (
+              <BlockMath key={leaf.id} math={String.raw`N_{\text{${leaf.name.replace(/[{}\\$&#^_%~]/g, '')}}} = ${factors.map(f => tx(f)).join(' \\cdot ')} = ${tx(factors.reduce((a, b) => a * b, 1))}`} />
+            ))}
+          </Box>
+        )}
+        {leaves.map((leaf, cIdx) => (
+          <Box key={leaf.id} sx={{ mb: 3 }}>
+            <Typography variant="h6">Альтернативи відносно критерію: {leaf.name}</Typography>
+            <ReportDerivation matrix={matrices.altMatrices[leaf.id]} steps={results.alts[cIdx]} defuzzifier={defuzzifier} optimism={optimism} />
+          </Box>
+        ))}
+        <Typography variant="h6">Глобальні оцінки</Typography>
+        <BlockMath math={String.raw`S_k = \sum_{j=1}^{${leaves.length}} N_j \cdot N_{kj}`} />
+        {altNames.map((_, aIdx) => (
+          <BlockMath key={aIdx} math={String.raw`S_{${aIdx + 1}} = ${leaves.map((__, cIdx) => String.raw`${tx(results.critNormWeights[cIdx])} \cdot ${tx(results.altLocalWeights[cIdx][aIdx])}`).join(' + ')} = ${tx(results.globalScores[aIdx])}`} />
+        ))}
+        {aggregationMode === 'fuzzy' && (
+          <>
+            <BlockMath math={String.raw`\tilde S_k = \sum_{j} \tilde W_j \otimes \tilde w_{kj}`} />
+            {altNames.map((_, aIdx) => <BlockMath key={aIdx} math={String.raw`\tilde S_{${aIdx + 1}} = ${texTri(results.fuzzyGlobalScores[aIdx])}`} />)}
+          </>
+        )}
+      </Paper>
+
+      <Paper sx={sectionSx}>
+        <Typography variant="h5" gutterBottom>4. Ранжування</Typography>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell align="center">Ранг</TableCell>
+              <TableCell>Альтернатива</TableCell>
+              {aggregationMode === 'fuzzy' && <TableCell align="center">Нечітка оцінка (S)</TableCell>}
+              <TableCell align="right">{aggregationMode === 'fuzzy' ? FUZZY_RANKING_METHODS.find(m => m.id === fuzzyRankingMethod)?.label : 'Глобальна Вага (Score)'}</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {results.ranked.map((item, idx) => (
+              <TableRow key={item.idx} sx={{ bgcolor: idx === 0 ? '#e8f5e9' : 'inherit' }}>
+                <TableCell align="center" sx={{ fontWeight: 'bold' }}>{idx + 1}</TableCell>
+                <TableCell>{item.name}</TableCell>
+                {aggregationMode === 'fuzzy' && <TableCell align="center">{formatTri(item.fuzzyScore, 4)}</TableCell>}
+                <TableCell align="right" sx={{ fontWeight: 'bold' }}>{formatNumber(item.score)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
         </Table>
-    </TableContainer>
+        {inconsistentMatrices.length > 0 ? (
+          <Alert severity="warning" sx={{ mt: 2 }}>
+            <AlertTitle>Неузгоджені судження (CR &gt; {CONSISTENCY_THRESHOLD})</AlertTitle>
+            Ранжування базується на матрицях, що потребують перегляду експертом: {inconsistentMatrices.join(', ')}.
+          </Alert>
+        ) : (
+          <Alert severity="success" sx={{ mt: 2 }}>Усі матриці попарних порівнянь узгоджені.</Alert>
+        )}
+      </Paper>
+    </Box>
   );
+};
 
 
 // --- Main Application ---
 
 function App() {
-  const [terms, setTerms] = useState<LinguisticTerm[]>(DEFAULT_TERMS);
-  const [criteriaNames, setCriteriaNames] = useState<string[]>(INITIAL_CRITERIA_NAMES);
-  const [altNames, setAltNames] = useState<string[]>(INITIAL_ALT_NAMES);
+  // The last project of this browser is restored once, on mount
+  const [session] = useState(restoreSession);
+  const [projectId, setProjectId] = useState(session.id);
+  const [library, setLibrary] = useState<LibraryEntry[]>(readLibrary);
+  const [libraryOpen, setLibraryOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+
+  const [scales, setScales] = useState<TermScale[]>(session.project.scales);
+  const [matrixScales, setMatrixScales] = useState<Record<string, string>>(session.project.matrixScales);
+  const [hierarchy, setHierarchy] = useState<CriterionNode>(session.project.hierarchy);
+  const [altNames, setAltNames] = useState<string[]>(session.project.altNames);
+  const [altRatings, setAltRatings] = useState<Record<string, AltRating>>(session.project.altRatings);
+  const [topsis, setTopsis] = useState<Record<string, TopsisCriterion>>(session.project.topsis);
   
   const [activeTab, setActiveTab] = useState(0);
-  const [modalOpen, setModalOpen] = useState(false);
+  const [editingScaleId, setEditingScaleId] = useState<string | null>(null);
+  const [weightingMethod, setWeightingMethod] = useState<WeightingMethod>(session.project.settings.weightingMethod);
+  const [defuzzMethod, setDefuzzMethod] = useState<DefuzzificationMethod>(session.project.settings.defuzzMethod);
+  const [defuzzOptimism, setDefuzzOptimism] = useState(session.project.settings.defuzzOptimism);
+  const [aggregationMode, setAggregationMode] = useState<AggregationMode>(session.project.settings.aggregationMode);
+  const [fuzzyRankingMethod, setFuzzyRankingMethod] = useState<FuzzyRankingMethod>(session.project.settings.fuzzyRankingMethod);
+
+  const [experts, setExperts] = useState<Expert[]>(session.project.experts);
+  const [activeExpertIdx, setActiveExpertIdx] = useState(0);
+  const [groupAggregation, setGroupAggregation] = useState<GroupAggregation>(session.project.settings.groupAggregation);
+  const [completionMethod, setCompletionMethod] = useState<CompletionMethod>(session.project.settings.completionMethod);
+  const [topsisWeights, setTopsisWeights] = useState<TopsisWeightSource>(session.project.settings.topsisWeights);
+  const [projectError, setProjectError] = useState<string | null>(null);
+  // An edited scale waiting for replacements of the removed terms that judgments still use
+  const [pendingScale, setPendingScale] = useState<{ scaleId: string; terms: LinguisticTerm[]; removed: Array<{ term: LinguisticTerm; count: number }> } | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+
+  // Name of the open project in the library; a fresh browser starts with the example
+  const projectName = library.find(e => e.id === projectId)?.name ?? session.name;
+
+  // Alternatives are compared under the leaf criteria only; every internal node owns a criteria matrix
+  const leaves = useMemo(() => getLeaves(hierarchy), [hierarchy]);
+  const internalNodes = useMemo(() => getInternalNodes(hierarchy), [hierarchy]);
+  const criteriaNames = leaves.map(leaf => leaf.name);
+  const hasSubCriteria = internalNodes.length > 1;
+
+  // The input tabs edit the matrices of the selected expert
+  const activeExpert = experts[Math.min(activeExpertIdx, experts.length - 1)];
 
-  const [critMatrix, setCritMatrix] = useState<MatrixCell[][]>(() => getInitialCritMatrixState());
-  const [altMatrices, setAltMatrices] = useState<MatrixCell[][][]>(() => getInitialAltMatricesState());
+  // Missing judgments are estimated per expert, before aggregation and every other computation
+  const completedExperts = useMemo(
+    () => experts.map(e => ({ ...e, ...completeMatrices(e, completionMethod) })),
+    [experts, completionMethod]
+  );
+  const completedActiveExpert = completedExperts[Math.min(activeExpertIdx, experts.length - 1)];
+  const altMatrices = leaves.map(leaf => completedActiveExpert.altMatrices[leaf.id]);
+
+  const termsFor = (key: string) => scaleForMatrix(scales, matrixScales, key).terms;
+  const editingScale = scales.find(s => s.id === editingScaleId);
 
   // Derived counts
   const numCriteria = criteriaNames.length;
   const numAlternatives = altNames.length;
 
   // --- Dynamic Add/Delete Logic ---
-  
-  const handleAddCriterion = () => {
-    const newCritName = `Критерій ${numCriteria + 1}`;
-    setCriteriaNames(prev => [...prev, newCritName]);
-
-    // Resize Crit Matrix: Add row and col
-    setCritMatrix(prev => {
-        const size = prev.length;
-        const newRow = Array(size + 1).fill(null).map(() => ({ tri: T_ONE, isInverse: false, saatyValue: 1 }));
-        const newMat = prev.map(row => [...row, { tri: T_ONE, isInverse: false, saatyValue: 1 }]);
-        newMat.push(newRow);
-        return newMat;
-    });
 
-    // Add a new Matrix for this criterion in AltMatrices
-    setAltMatrices(prev => [...prev, getInitialMatrix(numAlternatives, terms)]);
+  // Applies a structural tree edit and reshapes every expert's matrices to match
+  const applyHierarchyChange = (newHierarchy: CriterionNode) => {
+    const nextMatrixScales = syncMatrixScales(newHierarchy, matrixScales);
+    const nextTermsFor = (key: string) => scaleForMatrix(scales, nextMatrixScales, key).terms;
+    setExperts(prev => prev.map(e => ({ ...e, ...syncHierarchyMatrices(hierarchy, newHierarchy, e, numAlternatives, nextTermsFor) })));
+    setMatrixScales(nextMatrixScales);
+    setAltRatings(syncLeafEntries(newHierarchy, altRatings));
+    setTopsis(syncLeafEntries(newHierarchy, topsis));
+    setHierarchy(newHierarchy);
   };
 
-  const handleDeleteCriterion = (index: number) => {
-    if (numCriteria <= 2) return;
-    setCriteriaNames(prev => prev.filter((_, i) => i !== index));
+  const handleAddCriterion = (parentId: string = GOAL_ID) => {
+    const parent = parentId === GOAL_ID ? hierarchy : internalNodes.find(n => n.id === parentId) ?? leaves.find(l => l.id === parentId);
+    const newCritName = parentId === GOAL_ID ? `Критерій ${hierarchy.children.length + 1}` : `Підкритерій ${(parent?.children.length ?? 0) + 1}`;
+    applyHierarchyChange(addChildNode(hierarchy, parentId, newCritName));
+  };
 
-    setCritMatrix(prev => {
-        const newMat = prev.filter((_, r) => r !== index).map(row => row.filter((_, c) => c !== index));
-        return newMat;
-    });
+  // Top-level criteria stay at two or more so the goal matrix remains a comparison
+  const canDeleteCriterion = (id: string) => findParent(hierarchy, id)?.id !== GOAL_ID || hierarchy.children.length > 2;
+
+  const handleDeleteCriterion = (id: string) => {
+    if (!canDeleteCriterion(id)) return;
+    applyHierarchyChange(removeNode(hierarchy, id));
+  };
 
-    setAltMatrices(prev => prev.filter((_, i) => i !== index));
+  const handleIndentCriterion = (id: string) => {
+    const next = indentNode(hierarchy, id);
+    if (next.children.length < 2) return;
+    applyHierarchyChange(next);
+  };
+
+  const handleOutdentCriterion = (id: string) => applyHierarchyChange(outdentNode(hierarchy, id));
+
+  const handleRenameCriterion = (id: string, name: string) => {
+    setHierarchy(prev => updateNode(prev, id, node => ({ ...node, name })));
   };
 
   const handleAddAlternative = () => {
       const newAltName = `Альтернатива ${numAlternatives + 1}`;
       setAltNames(prev => [...prev, newAltName]);
 
-      // Resize EVERY Alt Matrix: Add row and col to each
-      setAltMatrices(prev => prev.map(mat => {
-          const size = mat.length;
-          const newRow = Array(size + 1).fill(null).map(() => ({ tri: T_ONE, isInverse: false, saatyValue: 1 }));
-          const newMat = mat.map(row => [...row, { tri: T_ONE, isInverse: false, saatyValue: 1 }]);
-          newMat.push(newRow);
-          return newMat;
-      }));
+      // Resize EVERY Alt Matrix of every expert: Add row and col to each
+      setExperts(prev => prev.map(e => ({ ...e, altMatrices: mapMatrices(e.altMatrices, (mat, id) => addMatrixItem(mat, termsFor(altMatrixKey(id)))) })));
+      setAltRatings(prev => mapRatings(prev, addRatingItem));
+      setTopsis(prev => Object.fromEntries(Object.entries(prev).map(([id, col]) => [id, { ...col, ratings: [...col.ratings, DEFAULT_RATING_TERM] }])));
   };
 
   const handleDeleteAlternative = (index: number) => {
       if (numAlternatives <= 2) return;
       setAltNames(prev => prev.filter((_, i) => i !== index));
 
-      // Resize EVERY Alt Matrix: Remove row/col at index
-      setAltMatrices(prev => prev.map(mat => {
-          return mat.filter((_, r) => r !== index).map(row => row.filter((_, c) => c !== index));
-      }));
+      // Resize EVERY Alt Matrix of every expert: Remove row/col at index
+      setExperts(prev => prev.map(e => ({ ...e, altMatrices: mapMatrices(e.altMatrices, mat => removeMatrixItem(mat, index)) })));
+      setAltRatings(prev => mapRatings(prev, rating => removeRatingItem(rating, index)));
+      setTopsis(prev => Object.fromEntries(Object.entries(prev).map(([id, col]) => [id, { ...col, ratings: col.ratings.filter((_, i) => i !== index) }])));
   };
 
+  const updateActiveExpert = (fn: (expert: Expert) => Partial<Expert>) => {
+    setExperts(prev => prev.map(e => e.id === activeExpert.id ? { ...e, ...fn(e) } : e));
+  };
 
-  const handleCritMatrixChange = (r: number, c: number, val: number) => {
-    const termTri = getTriForValue(val, terms);
-    const newMat = [...critMatrix.map(row => [...row])];
-    newMat[r][c] = { tri: termTri, isInverse: val < 1, saatyValue: val };
-    newMat[c][r] = { tri: fuzzyInverse(termTri), isInverse: true, saatyValue: 1/val };
-    setCritMatrix(newMat);
+  const handleCritMatrixChange = (nodeId: string, r: number, c: number, val: number) => {
+    updateActiveExpert(e => ({ critMatrices: { ...e.critMatrices, [nodeId]: setReciprocalJudgment(e.critMatrices[nodeId], r, c, val, termsFor(critMatrixKey(nodeId))) } }));
   };
 
   const handleAltMatrixChange = (critIdx: number, r: number, c: number, val: number) => {
-    const termTri = getTriForValue(val, terms);
-    const newMatrices = [...altMatrices];
-    const newMat = newMatrices[critIdx].map(row => [...row]);
-    newMat[r][c] = { tri: termTri, isInverse: val < 1, saatyValue: val };
-    newMat[c][r] = { tri: fuzzyInverse(termTri), isInverse: true, saatyValue: 1/val };
-    newMatrices[critIdx] = newMat;
-    setAltMatrices(newMatrices);
-  };
-
-  const handleReset = () => {
-    setTerms(DEFAULT_TERMS);
-    setCriteriaNames(INITIAL_CRITERIA_NAMES);
-    setAltNames(INITIAL_ALT_NAMES);
-    setCritMatrix(() => getInitialCritMatrixState());
-    setAltMatrices(() => getInitialAltMatricesState());
-    setActiveTab(0);
+    const leafId = leaves[critIdx].id;
+    updateActiveExpert(e => ({ altMatrices: { ...e.altMatrices, [leafId]: setReciprocalJudgment(e.altMatrices[leafId], r, c, val, termsFor(altMatrixKey(leafId))) } }));
   };
 
-  const results = useMemo(() => {
-    if (critMatrix.length !== numCriteria || altMatrices.length !== numCriteria) return null;
-    // Safety check for inner dimensions
-    if (altMatrices.some(m => m.length !== numAlternatives)) return null;
-
-    // 1. Process Criteria
-    const critGeoMeans = critMatrix.map(row => fuzzyGeoMean(row.map(c => c.tri)));
-    const sumCritGeoMeans = fuzzySum(critGeoMeans);
-    const invSumCrit = fuzzyInverse(sumCritGeoMeans);
-    const critFuzzyWeights = critGeoMeans.map(r => fuzzyMultiply(r, invSumCrit));
-    const critDefuzzified = critFuzzyWeights.map(w => centerOfArea(w));
-    const sumCritDefuzz = critDefuzzified.reduce((a, b) => a + b, 0);
-    const critNormWeights = critDefuzzified.map(v => sumCritDefuzz !== 0 ? v / sumCritDefuzz : 0);
+  // Switching back to pairwise keeps the experts' matrices, so their earlier judgments return
+  const handleRatingModeChange = (leafId: string, mode: RatingMode) => {
+    setAltRatings(prev => {
+      const next = { ...prev };
+      if (mode === 'pairwise') delete next[leafId];
+      else if (prev[leafId]?.mode !== mode) next[leafId] = blankRating(mode, numAlternatives);
+      return next;
+    });
+  };
 
-    // 2. Process Alternatives
-    const altLocalWeights: number[][] = [];
-    altMatrices.forEach((mat) => {
-        const geoMeans = mat.map(row => fuzzyGeoMean(row.map(c => c.tri)));
-        const sumGeo = fuzzySum(geoMeans);
-        const invSum = fuzzyInverse(sumGeo);
-        const fuzzyWeights = geoMeans.map(r => fuzzyMultiply(r, invSum));
-        const defuzzified = fuzzyWeights.map(w => centerOfArea(w));
-        const sumDefuzz = defuzzified.reduce((a, b) => a + b, 0);
-        const normalized = defuzzified.map(v => sumDefuzz !== 0 ? v / sumDefuzz : 0);
-        altLocalWeights.push(normalized);
+  const handleRatingChange = (leafId: string, rating: AltRating) => {
+    setAltRatings(prev => ({ ...prev, [leafId]: rating }));
+  };
+
+  const handleTopsisColumnChange = (cIdx: number, column: TopsisCriterion) => {
+    setTopsis(prev => ({ ...prev, [leaves[cIdx].id]: column }));
+  };
+
+  const usesScale = (scaleId: string, key: string) => scaleForMatrix(scales, matrixScales, key).id === scaleId;
+
+  // Every linked judgment of the scale's matrices follows the new terms: edited triangles apply at once, removed terms go through the migration dialog
+  const applyScale = (scaleId: string, newTerms: LinguisticTerm[], replacements: Record<string, string> = {}) => {
+    const resolve = (key: string) => (mat: MatrixCell[][]) => usesScale(scaleId, key) ? resolveMatrix(mat, newTerms, replacements) : mat;
+    setExperts(prev => prev.map(e => ({
+      ...e,
+      critMatrices: mapMatrices(e.critMatrices, (mat, id) => resolve(critMatrixKey(id))(mat)),
+      altMatrices: mapMatrices(e.altMatrices, (mat, id) => resolve(altMatrixKey(id))(mat)),
+    })));
+    setScales(prev => prev.map(s => s.id === scaleId ? { ...s, terms: newTerms } : s));
+    setPendingScale(null);
+  };
+
+  const handleSaveTerms = (scaleId: string, newTerms: LinguisticTerm[]) => {
+    const usage = countTermUsage(experts.flatMap(e => [
+      ...Object.entries(e.critMatrices).filter(([id]) => usesScale(scaleId, critMatrixKey(id))).map(([, mat]) => mat),
+      ...Object.entries(e.altMatrices).filter(([id]) => usesScale(scaleId, altMatrixKey(id))).map(([, mat]) => mat),
+    ]));
+    const removed = scales.find(s => s.id === scaleId)!.terms
+      .filter(t => usage[t.id] && !newTerms.some(n => n.id === t.id))
+      .map(term => ({ term, count: usage[term.id] }));
+    if (removed.length > 0) setPendingScale({ scaleId, terms: newTerms, removed });
+    else applyScale(scaleId, newTerms);
+  };
+
+  // A new scale starts as a copy of the default one and opens in the editor
+  const handleAddScale = () => {
+    const scale = { id: crypto.randomUUID(), name: `Шкала ${scales.length + 1}`, terms: scales[0].terms };
+    setScales(prev => [...prev, scale]);
+    setEditingScaleId(scale.id);
+  };
+
+  const handleRenameScale = (scaleId: string, name: string) => {
+    setScales(prev => prev.map(s => s.id === scaleId ? { ...s, name } : s));
+  };
+
+  // Switches one matrix of every expert to another scale, carrying the judgments over by Saaty value
+  const handleMatrixScaleChange = (key: string, scaleId: string) => {
+    const terms = scales.find(s => s.id === scaleId)!.terms;
+    const [kind, id] = key.split(/:(.*)/);
+    setExperts(prev => prev.map(e => kind === 'crit'
+      ? { ...e, critMatrices: { ...e.critMatrices, [id]: rescaleMatrix(e.critMatrices[id], terms) } }
+      : { ...e, altMatrices: { ...e.altMatrices, [id]: rescaleMatrix(e.altMatrices[id], terms) } }));
+    setMatrixScales(prev => {
+      const next = { ...prev };
+      if (scaleId === scales[0].id) delete next[key];
+      else next[key] = scaleId;
+      return next;
     });
+  };
 
-    // 3. Global Scores
-    const globalScores = altNames.map((_, altIdx) => {
-        let score = 0;
-        for (let cIdx = 0; cIdx < numCriteria; cIdx++) {
-            const critWeight = critNormWeights[cIdx] || 0;
-            const altWeight = altLocalWeights[cIdx][altIdx] || 0;
-            score += critWeight * altWeight;
-        }
-        return score;
+  // Matrices of a deleted scale fall back to the default one
+  const handleDeleteScale = (scaleId: string) => {
+    Object.keys(matrixScales).filter(key => matrixScales[key] === scaleId).forEach(key => handleMatrixScaleChange(key, scales[0].id));
+    setScales(prev => prev.filter(s => s.id !== scaleId));
+  };
+
+  const handleImportMatrices = (assignments: Array<{ key: string; matrix: MatrixCell[][] }>) => {
+    updateActiveExpert(e => {
+      const critMatrices = { ...e.critMatrices };
+      const altMatrices = { ...e.altMatrices };
+      assignments.forEach(({ key, matrix }) => {
+        const [kind, id] = key.split(/:(.*)/);
+        if (kind === 'crit') critMatrices[id] = matrix;
+        else altMatrices[id] = matrix;
+      });
+      return { critMatrices, altMatrices };
     });
+  };
 
-    const ranked = globalScores
-        .map((score, idx) => ({ name: altNames[idx], score, idx }))
-        .sort((a, b) => b.score - a.score);
+  const handleAddExpert = () => {
+    const expert = createExpert(`Експерт ${experts.length + 1}`, getBlankMatrices(hierarchy, numAlternatives, termsFor));
+    setExperts(prev => [...prev, expert]);
+  };
 
-    return {
-        critGeoMeans, sumCritGeoMeans, invSumCrit, critFuzzyWeights, critNormWeights, altLocalWeights, globalScores, ranked
+  const handleDeleteExpert = (index: number) => {
+    if (experts.length <= 1) return;
+    setExperts(prev => prev.filter((_, i) => i !== index));
+    setActiveExpertIdx(0);
+  };
+
+  const handleExpertChange = (index: number, patch: Partial<Pick<Expert, 'name' | 'weight'>>) => {
+    setExperts(prev => prev.map((e, i) => i === index ? { ...e, ...patch } : e));
+  };
+
+  const applyProject = (project: Project) => {
+    const { settings } = project;
+    setScales(project.scales);
+    setMatrixScales(project.matrixScales);
+    setHierarchy(project.hierarchy);
+    setAltNames(project.altNames);
+    setAltRatings(project.altRatings);
+    setTopsis(project.topsis);
+    setExperts(project.experts);
+    setActiveExpertIdx(0);
+    setGroupAggregation(settings.groupAggregation);
+    setWeightingMethod(settings.weightingMethod);
+    setDefuzzMethod(settings.defuzzMethod);
+    setDefuzzOptimism(settings.defuzzOptimism);
+    setAggregationMode(settings.aggregationMode);
+    setFuzzyRankingMethod(settings.fuzzyRankingMethod);
+    setCompletionMethod(settings.completionMethod);
+    setTopsisWeights(settings.topsisWeights);
+    setActiveTab(0);
+  };
+
+  const project = useMemo<Project>(() => ({
+    scales,
+    matrixScales,
+    hierarchy,
+    altNames,
+    experts,
+    altRatings,
+    topsis,
+    settings: { weightingMethod, defuzzMethod, defuzzOptimism, aggregationMode, fuzzyRankingMethod, groupAggregation, completionMethod, topsisWeights },
+  }), [scales, matrixScales, hierarchy, altNames, experts, altRatings, topsis, weightingMethod, defuzzMethod, defuzzOptimism, aggregationMode, fuzzyRankingMethod, groupAggregation, completionMethod, topsisWeights]);
+
+  // --- Autosave & Project Library ---
+
+  const persistProject = useCallback((id: string, name: string, data: Project) => {
+    try {
+      setLibrary(saveLibraryProject(id, name, data));
+      setStorageError(null);
+    } catch (err) {
+      setStorageError(err instanceof Error ? err.message : String(err));
+    }
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => persistProject(projectId, projectName, project), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [persistProject, projectId, projectName, project]);
+
+  // Other tabs edit the same library
+  useEffect(() => {
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === LIBRARY_KEY) setLibrary(readLibrary());
     };
-  }, [critMatrix, altMatrices, numCriteria, numAlternatives, altNames]);
+    window.addEventListener('storage', onStorage);
+    return () => window.removeEventListener('storage', onStorage);
+  }, []);
+
+  // Saves the open project right away (unless it was just deleted), then makes another one current
+  const openLibraryProject = (id: string, name: string, data: Project, saveCurrent = true) => {
+    if (saveCurrent) persistProject(projectId, projectName, project);
+    persistProject(id, name, data);
+    setProjectId(id);
+    applyProject(data);
+    setLibraryOpen(false);
+  };
+
+  // The example always opens as a new entry, so it never overwrites the project that is open
+  const handleOpenExample = () => openLibraryProject(crypto.randomUUID(), "Вибір логістичного партнера", getExampleProject());
+
+  const handleSwitchProject = (id: string, saveCurrent = true): boolean => {
+    const entry = library.find(e => e.id === id);
+    if (!entry) return false;
+    try {
+      openLibraryProject(id, entry.name, loadLibraryProject(id), saveCurrent);
+      setProjectError(null);
+      return true;
+    } catch (err) {
+      setProjectError(`${entry.name}: ${err instanceof Error ? err.message : String(err)}`);
+      return false;
+    }
+  };
+
+  const handleRenameProject = (id: string, name: string) => {
+    setLibrary(prev => prev.map(e => e.id === id ? { ...e, name } : e));
+    if (id !== projectId) {
+      const entries = readLibrary().map(e => e.id === id ? { ...e, name } : e);
+      localStorage.setItem(LIBRARY_KEY, JSON.stringify(entries));
+    }
+  };
+
+  const handleDuplicateProject = (id: string) => {
+    const entry = library.find(e => e.id === id);
+    if (!entry) return;
+    try {
+      const data = id === projectId ? project : loadLibraryProject(id);
+      openLibraryProject(crypto.randomUUID(), `${entry.name} (копія)`, data);
+    } catch (err) {
+      setProjectError(`${entry.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleDeleteProject = (id: string) => {
+    if (library.length <= 1) return;
+    // The open project is removed only once another one has loaded, so autosave cannot bring it back
+    if (id === projectId && !handleSwitchProject(library.find(e => e.id !== id)!.id, false)) return;
+    setLibrary(deleteLibraryProject(id));
+  };
+
+  const handleSaveProject = () => {
+    const file = serializeProject(project);
+    downloadBlob(new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' }), `${projectName.trim() || 'fuzzy-ahp'}.fahp.json`);
+  };
+
+  const handleExportResults = async (format: 'csv' | 'xlsx') => {
+    if (!results) return;
+    const tables = buildResultTables({ hierarchy, altNames, results, consistency, defuzzifier: getDefuzzifier(defuzzMethod), aggregationMode, fuzzyRankingMethod });
+    const baseName = `${projectName.trim() || 'fuzzy-ahp'} - результати`;
+    try {
+      if (format === 'csv') {
+        downloadBlob(new Blob(['\uFEFF' + tablesToCsv(tables)], { type: 'text/csv;charset=utf-8' }), `${baseName}.csv`);
+      } else {
+        downloadBlob(new Blob([await tablesToXlsx(tables)], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), `${baseName}.xlsx`);
+      }
+      setProjectError(null);
+    } catch (err) {
+      setProjectError(`Експорт ${format.toUpperCase()}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // allow re-opening the same file
+    if (!file) return;
+    try {
+      openLibraryProject(crypto.randomUUID(), file.name.replace(/(\.fahp)?\.json$/i, ''), parseProjectFile(await file.text()));
+      setProjectError(null);
+    } catch (err) {
+      setProjectError(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const defuzzify = useMemo(() => makeDefuzzify(defuzzMethod, defuzzOptimism), [defuzzMethod, defuzzOptimism]);
+
+  const modelOptions = useMemo<ModelOptions>(
+    () => ({ weightingMethod, defuzzify, aggregationMode, fuzzyRankingMethod, altRatings }),
+    [weightingMethod, defuzzify, aggregationMode, fuzzyRankingMethod, altRatings]
+  );
+
+  // Group matrices aggregated over all experts feed the pipeline
+  const group = useMemo(() => aggregateExperts(completedExperts, groupAggregation), [completedExperts, groupAggregation]);
+  const groupAltMatrices = useMemo(() => leaves.map(leaf => group.altMatrices[leaf.id]), [leaves, group]);
+  // Normalized scores of the rated leaves; null where the alternatives are compared pairwise
+  const altScores = useMemo(() => leaves.map(leaf => altRatings[leaf.id] ? ratingScores(altRatings[leaf.id]) : null), [leaves, altRatings]);
+  const topsisColumns = useMemo(() => leaves.map(leaf => topsis[leaf.id]
+    ?? (altRatings[leaf.id] ? topsisCriterionFromRating(altRatings[leaf.id]) : blankTopsisCriterion(numAlternatives))), [leaves, topsis, altRatings, numAlternatives]);
+  const invalidRatings = leaves.filter(leaf => altRatings[leaf.id] && ratingError(altRatings[leaf.id])).map(leaf => leaf.name);
+
+  // Matrices whose known comparisons are not connected, so their missing judgments cannot be estimated
+  const disconnectedMatrices = useMemo(() => completedExperts.flatMap(e => {
+    const prefix = experts.length > 1 ? `${e.name}: ` : '';
+    return [
+      ...internalNodes.filter(node => e.critMatrices[node.id] && hasMissingJudgments(e.critMatrices[node.id])).map(node => `${prefix}${nodeMatrixLabel(node)}`),
+      ...leaves.filter(leaf => !altRatings[leaf.id] && e.altMatrices[leaf.id] && hasMissingJudgments(e.altMatrices[leaf.id])).map(leaf => `${prefix}Альтернативи: ${leaf.name}`),
+    ];
+  }), [completedExperts, experts.length, internalNodes, leaves, altRatings]);
+
+  const results = useMemo(() => {
+    // Safety check for matrix dimensions against the hierarchy
+    if (!isModelComplete(hierarchy, group, numAlternatives)) return null;
+    if (disconnectedMatrices.length > 0 || invalidRatings.length > 0) return null;
+
+    return computeResults(hierarchy, group, altNames, modelOptions);
+  }, [hierarchy, group, numAlternatives, altNames, modelOptions, disconnectedMatrices, invalidRatings.length]);
+
+  const expertResults = useMemo(
+    () => experts.length > 1 && results ? completedExperts.map(e => computeResults(hierarchy, e, altNames, modelOptions)) : [],
+    [experts.length, completedExperts, results, hierarchy, altNames, modelOptions]
+  );
+
+  const computeMatricesConsistency = useCallback((matrices: HierarchyMatrices) => ({
+    nodes: Object.fromEntries(internalNodes.map(node => [node.id, computeConsistency(matrices.critMatrices[node.id], defuzzify)])),
+    alts: leaves.map(leaf => altRatings[leaf.id] ? ratingConsistency(numAlternatives) : computeConsistency(matrices.altMatrices[leaf.id], defuzzify)),
+  }), [internalNodes, leaves, altRatings, numAlternatives, defuzzify]);
+
+  const consistency = useMemo(() => computeMatricesConsistency(group), [computeMatricesConsistency, group]);
+
+  // Badges and the repair assistant follow the expert being edited
+  const inputConsistency = useMemo(
+    () => experts.length > 1 ? computeMatricesConsistency(completedActiveExpert) : consistency,
+    [experts.length, computeMatricesConsistency, completedActiveExpert, consistency]
+  );
+
+  const methodLabel = weightingMethod === 'buckley' ? 'Steps 2-5' : WEIGHTING_METHODS.find(m => m.id === weightingMethod)?.label;
+
+  const importTargets: ImportTarget[] = [
+    ...internalNodes.map(node => ({ key: critMatrixKey(node.id), label: nodeMatrixLabel(node), name: node.id === GOAL_ID ? 'Критерії' : node.name, items: node.children.map(c => c.name), terms: termsFor(critMatrixKey(node.id)) })),
+    ...leaves.filter(leaf => !altRatings[leaf.id]).map(leaf => ({ key: altMatrixKey(leaf.id), label: `Альтернативи: ${leaf.name}`, name: leaf.name, items: altNames, terms: termsFor(altMatrixKey(leaf.id)) })),
+  ];
+
+  const inconsistentMatrices = [
+    ...internalNodes.filter(node => consistency.nodes[node.id] && !consistency.nodes[node.id].isConsistent).map(nodeMatrixLabel),
+    ...criteriaNames.filter((_, cIdx) => consistency.alts[cIdx] && !consistency.alts[cIdx].isConsistent).map(name => `Альтернативи: ${name}`),
+  ];
+
+  const nodeTableNumber = (nodeIdx: number) => matrixTableNumber(nodeIdx);
+  const leafTableNumber = (leafIdx: number) => matrixTableNumber(internalNodes.length + leafIdx);
 
 
   return (
     <ThemeProvider theme={theme}>
       <CssBaseline />
-      <AppBar position="static" color="default" elevation={1}>
+      <GlobalStyles styles={PRINT_STYLES} />
+      <AppBar position="static" color="default" elevation={1} className="no-print">
         <Box sx={{ p: 2, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
            <Typography variant="h5" color="primary" sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
              <InfoOutlinedIcon /> Fuzzy AHP
            </Typography>
-           <Button startIcon={<RestartAltIcon />} color="error" onClick={handleReset}>Скинути дані</Button>
+           <Box sx={{ display: 'flex', gap: 1 }}>
+             <Button startIcon={<FolderCopyIcon />} onClick={() => setLibraryOpen(true)}>Проєкти: {projectName}</Button>
+             <Button startIcon={<SaveIcon />} onClick={handleSaveProject}>Зберегти проєкт</Button>
+             <Button startIcon={<FolderOpenIcon />} component="label">
+               Відкрити проєкт
+               <input type="file" accept=".json,application/json" hidden onChange={handleOpenProject} />
+             </Button>
+             <Button startIcon={<RestartAltIcon />} color="error" onClick={handleOpenExample}>Скинути дані</Button>
+           </Box>
         </Box>
-        <Tabs value={activeTab} onChange={(_, v) => setActiveTab(v)} centered>
+        <Tabs value={activeTab} onChange={(_, v) => setActiveTab(v)} variant="scrollable" scrollButtons="auto">
           <Tab label="1. Налаштування" />
           <Tab label="2. Порівняння Критеріїв" />
           <Tab label="3. Порівняння Альтернатив" />
           <Tab label="4. Кроки Розрахунку" />
+          <Tab label="5. α-зрізи" />
+          <Tab label="6. Чіткий AHP" />
+          <Tab label="7. Чутливість" />
+          <Tab label="8. Монте-Карло" />
+          <Tab label="9. Fuzzy TOPSIS" />
+          <Tab label="10. Звіт" />
         </Tabs>
       </AppBar>
 
       <Container maxWidth="xl" sx={{ mt: 4, mb: 4 }}>
+        {projectError && (
+          <Alert severity="error" onClose={() => setProjectError(null)} sx={{ mb: 3 }}>
+            <AlertTitle>Не вдалося виконати операцію з файлом</AlertTitle>
+            {projectError}
+          </Alert>
+        )}
+        {storageError && (
+          <Alert severity="warning" onClose={() => setStorageError(null)} sx={{ mb: 3 }}>
+            <AlertTitle>Автозбереження не вдалося</AlertTitle>
+            {storageError}
+          </Alert>
+        )}
+        {activeTab >= 3 && disconnectedMatrices.length > 0 && (
+          <Alert severity="error" sx={{ mb: 3 }}>
+            <AlertTitle>Розрахунок неможливий</AlertTitle>
+            Відомі порівняння не утворюють зв'язного графа, тож пропущені судження не можна оцінити: {disconnectedMatrices.join(', ')}.
+          </Alert>
+        )}
+        {activeTab >= 3 && invalidRatings.length > 0 && (
+          <Alert severity="error" sx={{ mb: 3 }}>
+            <AlertTitle>Розрахунок неможливий</AlertTitle>
+            Оцінки альтернатив містять некоректні значення за критеріями: {invalidRatings.join(', ')}.
+          </Alert>
+        )}
         
         {/* TAB 0: SETUP */}
         {activeTab === 0 && (
           <Stack spacing={3}>
              <Paper sx={{ p: 3 }}>
-                <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 2 }}>
-                  <Typography variant="h6">Параметри задачі</Typography>
-                  <Button startIcon={<EditIcon />} variant="outlined" onClick={() => setModalOpen(true)}>Редагувати терми</Button>
+                <Typography variant="h6" sx={{ mb: 2 }}>Параметри задачі</Typography>
+                <TextField
+                  select
+                  size="small"
+                  label="Метод розрахунку ваг"
+                  value={weightingMethod}
+                  onChange={(e) => setWeightingMethod(e.target.value as WeightingMethod)}
+                  sx={{ minWidth: 320, mb: 2 }}
+                >
+                  {WEIGHTING_METHODS.map(m => <MenuItem key={m.id} value={m.id}>{m.label}</MenuItem>)}
+                </TextField>
+                <TextField
+                  select
+                  size="small"
+                  label="Оцінювання пропущених суджень (?)"
+                  value={completionMethod}
+                  onChange={(e) => setCompletionMethod(e.target.value as CompletionMethod)}
+                  sx={{ minWidth: 320, mb: 2, ml: 2 }}
+                >
+                  {COMPLETION_METHODS.map(m => <MenuItem key={m.id} value={m.id}>{m.label}</MenuItem>)}
+                </TextField>
+                <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', alignItems: 'center', mb: 2 }}>
+                  <TextField
+                    select
+                    size="small"
+                    label="Метод дефазифікації"
+                    value={defuzzMethod}
+                    onChange={(e) => setDefuzzMethod(e.target.value as DefuzzificationMethod)}
+                    sx={{ minWidth: 320 }}
+                    helperText={getDefuzzifier(defuzzMethod).formulaLabel}
+                  >
+                    {DEFUZZIFIERS.map(d => <MenuItem key={d.id} value={d.id}>{d.label}</MenuItem>)}
+                  </TextField>
+                  {getDefuzzifier(defuzzMethod).optimismLabel && (
+                    <Box sx={{ width: 240, px: 1 }}>
+                      <Typography variant="caption" color="text.secondary">{getDefuzzifier(defuzzMethod).optimismLabel} = {formatNumber(defuzzOptimism, 2)}</Typography>
+                      <Slider size="small" min={0} max={1} step={0.05} value={defuzzOptimism} onChange={(_, v) => setDefuzzOptimism(v as number)} />
+                    </Box>
+                  )}
+                </Box>
+                <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap', mb: 3 }}>
+                  <TextField
+                    select
+                    size="small"
+                    label="Агрегація глобальних оцінок"
+                    value={aggregationMode}
+                    onChange={(e) => setAggregationMode(e.target.value as AggregationMode)}
+                    sx={{ minWidth: 320 }}
+                  >
+                    <MenuItem value="crisp">Чітка (дефазифікація до агрегації)</MenuItem>
+                    <MenuItem value="fuzzy">Повністю нечітка (fuzzy global scores)</MenuItem>
+                  </TextField>
+                  {aggregationMode === 'fuzzy' && (
+                    <TextField
+                      select
+                      size="small"
+                      label="Метод ранжування нечітких чисел"
+                      value={fuzzyRankingMethod}
+                      onChange={(e) => setFuzzyRankingMethod(e.target.value as FuzzyRankingMethod)}
+                      sx={{ minWidth: 320 }}
+                    >
+                      {FUZZY_RANKING_METHODS.map(m => <MenuItem key={m.id} value={m.id}>{m.label}</MenuItem>)}
+                    </TextField>
+                  )}
                 </Box>
                 
                 <Grid container spacing={4}>
                    <Grid>
                       <Typography variant="subtitle1" gutterBottom sx={{ fontWeight: 'bold' }}>Критерії ({numCriteria})</Typography>
-                      {criteriaNames.map((name, idx) => (
-                         <Box key={idx} sx={{ display: 'flex', gap: 1, mb: 1 }}>
-                            <TextField fullWidth size="small" value={name} onChange={(e) => {
-                                 const newNames = [...criteriaNames];
-                                 newNames[idx] = e.target.value;
-                                 setCriteriaNames(newNames);
-                              }}
-                              label={`Критерій ${idx + 1}`}
-                            />
-                            <IconButton color="error" onClick={() => handleDeleteCriterion(idx)} disabled={numCriteria <= 2}>
-                                <DeleteIcon />
-                            </IconButton>
-                        </Box>
-                      ))}
-                      <Button startIcon={<AddIcon />} variant="outlined" onClick={handleAddCriterion} sx={{ mt: 1 }}>Додати критерій</Button>
+                      <TextField fullWidth size="small" value={hierarchy.name} onChange={(e) => handleRenameCriterion(GOAL_ID, e.target.value)} label="Мета (Goal)" sx={{ mb: 2 }} />
+                      <CriteriaTreeEditor
+                        hierarchy={hierarchy}
+                        onRename={handleRenameCriterion}
+                        onAddChild={handleAddCriterion}
+                        onDelete={handleDeleteCriterion}
+                        canDelete={canDeleteCriterion}
+                        onIndent={handleIndentCriterion}
+                        onOutdent={handleOutdentCriterion}
+                      />
+                      <Button startIcon={<AddIcon />} variant="outlined" onClick={() => handleAddCriterion()} sx={{ mt: 1 }}>Додати критерій</Button>
                    </Grid>
                    <Grid>
                       <Typography variant="subtitle1" gutterBottom sx={{ fontWeight: 'bold' }}>Альтернативи ({numAlternatives})</Typography>
@@ -1025,6 +5658,100 @@ function App() {
                    </Grid>
                 </Grid>
              </Paper>
+             <Paper sx={{ p: 3 }}>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+                  <Typography variant="h6">Лінгвістичні шкали ({scales.length})</Typography>
+                  <Button startIcon={<AddIcon />} variant="outlined" onClick={handleAddScale}>Додати шкалу</Button>
+                </Box>
+                <Grid container spacing={4}>
+                   <Grid size={{ xs: 12, lg: 5 }}>
+                      {scales.map((scale, idx) => (
+                        <Box key={scale.id} sx={{ display: 'flex', gap: 1, mb: 1, alignItems: 'flex-start' }}>
+                          <TextField
+                            fullWidth
+                            size="small"
+                            value={scale.name}
+                            onChange={(e) => handleRenameScale(scale.id, e.target.value)}
+                            label={idx === 0 ? 'Шкала за замовчуванням' : `Шкала ${idx + 1}`}
+                            helperText={`Термів: ${scale.terms.length}`}
+                          />
+                          <Tooltip title="Редагувати терми">
+                            <IconButton onClick={() => setEditingScaleId(scale.id)}><EditIcon /></IconButton>
+                          </Tooltip>
+                          <IconButton color="error" onClick={() => handleDeleteScale(scale.id)} disabled={idx === 0}>
+                            <DeleteIcon />
+                          </IconButton>
+                        </Box>
+                      ))}
+                   </Grid>
+                   <Grid size={{ xs: 12, lg: 7 }}>
+                      <Table size="small">
+                        <TableHead>
+                          <TableRow>
+                            <TableCell>Матриця</TableCell>
+                            <TableCell>Шкала</TableCell>
+                          </TableRow>
+                        </TableHead>
+                        <TableBody>
+                          {importTargets.map(target => (
+                            <TableRow key={target.key}>
+                              <TableCell>{target.label}</TableCell>
+                              <TableCell>
+                                <TextField
+                                  select
+                                  size="small"
+                                  value={scaleForMatrix(scales, matrixScales, target.key).id}
+                                  onChange={(e) => handleMatrixScaleChange(target.key, e.target.value)}
+                                  sx={{ minWidth: 220 }}
+                                >
+                                  {scales.map(scale => <MenuItem key={scale.id} value={scale.id}>{scale.name}</MenuItem>)}
+                                </TextField>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                      <FormHelperText>Зміна шкали переносить судження матриці за значенням Saaty; відсутні значення замінюються найближчим термом.</FormHelperText>
+                   </Grid>
+                </Grid>
+             </Paper>
+             <Paper sx={{ p: 3 }}>
+                <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: 2, mb: 2 }}>
+                  <Typography variant="h6">Експерти ({experts.length})</Typography>
+                  <TextField
+                    select
+                    size="small"
+                    label="Агрегація суджень"
+                    value={groupAggregation}
+                    onChange={(e) => setGroupAggregation(e.target.value as GroupAggregation)}
+                    sx={{ minWidth: 360 }}
+                    disabled={experts.length <= 1}
+                  >
+                    {GROUP_AGGREGATIONS.map(a => <MenuItem key={a.id} value={a.id}>{a.label}</MenuItem>)}
+                  </TextField>
+                </Box>
+                {experts.map((expert, idx) => (
+                  <Box key={expert.id} sx={{ display: 'flex', gap: 1, mb: 1, maxWidth: 600 }}>
+                    <TextField fullWidth size="small" value={expert.name} onChange={(e) => handleExpertChange(idx, { name: e.target.value })} label={`Експерт ${idx + 1}`} />
+                    <TextField
+                      size="small"
+                      type="number"
+                      label="Вага"
+                      value={expert.weight}
+                      onChange={(e) => {
+                        const num = parseFloat(e.target.value);
+                        handleExpertChange(idx, { weight: isNaN(num) ? 0 : num });
+                      }}
+                      sx={{ width: 100 }}
+                      slotProps={{ htmlInput: { min: 0, step: 0.1 } }}
+                    />
+                    <IconButton color="error" onClick={() => handleDeleteExpert(idx)} disabled={experts.length <= 1}>
+                      <DeleteIcon />
+                    </IconButton>
+                  </Box>
+                ))}
+                <Button startIcon={<AddIcon />} variant="outlined" onClick={handleAddExpert} sx={{ mt: 1 }}>Додати експерта</Button>
+             </Paper>
              <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
                 <Button variant="contained" endIcon={<ArrowForwardIosIcon />} onClick={() => setActiveTab(1)}>Далі до порівняння Критеріїв</Button>
              </Box>
@@ -1034,13 +5761,35 @@ function App() {
         {/* TAB 1: CRITERIA MATRIX */}
         {activeTab === 1 && (
           <Stack spacing={2}>
-             <PairwiseMatrixInput 
-                title="Таблиця 2. Матриця попарних порівнянь Критеріїв"
-                items={criteriaNames}
-                matrix={critMatrix}
-                onChange={handleCritMatrixChange}
-                terms={terms}
-             />
+             <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+                {experts.length > 1 && <ExpertSelector experts={experts} activeIndex={activeExpertIdx} onChange={setActiveExpertIdx} />}
+                <Button variant="outlined" startIcon={<UploadFileIcon />} onClick={() => setImportOpen(true)}>Імпорт з CSV / XLSX</Button>
+             </Box>
+             {internalNodes.map((node, nIdx) => {
+                const items = node.children.map(c => c.name);
+                const matrix = completedActiveExpert.critMatrices[node.id];
+                const onChange = (r: number, c: number, val: number) => handleCritMatrixChange(node.id, r, c, val);
+                return (
+                   <Grid container spacing={2} key={node.id}>
+                      <Grid size={{ xs: 12, lg: 8 }}>
+                         <PairwiseMatrixInput
+                            title={node.id === GOAL_ID
+                               ? `Таблиця ${nodeTableNumber(nIdx)}. Матриця попарних порівнянь Критеріїв`
+                               : `Таблиця ${nodeTableNumber(nIdx)}. Порівняння Підкритеріїв відносно критерію: ${node.name}`}
+                            items={items}
+                            matrix={matrix}
+                            onChange={onChange}
+                            terms={termsFor(critMatrixKey(node.id))}
+                            scaleName={scales.length > 1 ? scaleForMatrix(scales, matrixScales, critMatrixKey(node.id)).name : undefined}
+                            consistency={inputConsistency.nodes[node.id]}
+                         />
+                      </Grid>
+                      <Grid size={{ xs: 12, lg: 4 }}>
+                         <RepairAssistantPanel items={items} matrix={matrix} terms={termsFor(critMatrixKey(node.id))} consistency={inputConsistency.nodes[node.id]} defuzzify={defuzzify} onApply={onChange} />
+                      </Grid>
+                   </Grid>
+                );
+             })}
              <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
                 <Button startIcon={<ArrowBackIosNewIcon />} onClick={() => setActiveTab(0)}>Назад</Button>
                 <Button variant="contained" endIcon={<ArrowForwardIosIcon />} onClick={() => setActiveTab(2)}>Далі до Альтернатив</Button>
@@ -1051,15 +5800,46 @@ function App() {
         {/* TAB 2: ALTERNATIVES MATRICES */}
         {activeTab === 2 && (
           <Stack spacing={4}>
+             <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+                {experts.length > 1 && <ExpertSelector experts={experts} activeIndex={activeExpertIdx} onChange={setActiveExpertIdx} />}
+                <Button variant="outlined" startIcon={<UploadFileIcon />} onClick={() => setImportOpen(true)}>Імпорт з CSV / XLSX</Button>
+             </Box>
+             <FormHelperText>
+                Для кожного критерію альтернативи можна порівняти попарно, задати прямі значення (наприклад, ціну) або лінгвістичні оцінки.
+                Прямі значення та оцінки спільні для всіх експертів; попарні судження експертів зберігаються і повертаються при поверненні до порівнянь.
+             </FormHelperText>
              {criteriaNames.map((critName, cIdx) => (
-                <PairwiseMatrixInput
-                   key={cIdx}
-                   title={`Таблиця ${7 + 5*cIdx}. Порівняння Альтернатив відносно критерію: ${critName}`}
-                   items={altNames}
-                   matrix={altMatrices[cIdx]}
-                   onChange={(r, c, val) => handleAltMatrixChange(cIdx, r, c, val)}
-                   terms={terms}
-                />
+                <Box key={cIdx}>
+                   <TextField select size="small" label={`Оцінювання за критерієм: ${critName}`} value={altRatings[leaves[cIdx].id]?.mode ?? 'pairwise'} onChange={(e) => handleRatingModeChange(leaves[cIdx].id, e.target.value as RatingMode)} sx={{ minWidth: 320, mb: 2 }}>
+                      {RATING_MODES.map(m => <MenuItem key={m.id} value={m.id}>{m.label}</MenuItem>)}
+                   </TextField>
+                   {altRatings[leaves[cIdx].id] ? (
+                      <AltRatingInput
+                         title={`Таблиця ${leafTableNumber(cIdx)}. Оцінки Альтернатив за критерієм: ${critName}`}
+                         items={altNames}
+                         rating={altRatings[leaves[cIdx].id]}
+                         onChange={(rating) => handleRatingChange(leaves[cIdx].id, rating)}
+                         defuzzify={defuzzify}
+                      />
+                   ) : (
+                      <Grid container spacing={2}>
+                         <Grid size={{ xs: 12, lg: 8 }}>
+                            <PairwiseMatrixInput
+                               title={`Таблиця ${leafTableNumber(cIdx)}. Порівняння Альтернатив відносно критерію: ${critName}`}
+                               items={altNames}
+                               matrix={altMatrices[cIdx]}
+                               onChange={(r, c, val) => handleAltMatrixChange(cIdx, r, c, val)}
+                               terms={termsFor(altMatrixKey(leaves[cIdx].id))}
+                               scaleName={scales.length > 1 ? scaleForMatrix(scales, matrixScales, altMatrixKey(leaves[cIdx].id)).name : undefined}
+                               consistency={inputConsistency.alts[cIdx]}
+                            />
+                         </Grid>
+                         <Grid size={{ xs: 12, lg: 4 }}>
+                            <RepairAssistantPanel items={altNames} matrix={altMatrices[cIdx]} terms={termsFor(altMatrixKey(leaves[cIdx].id))} consistency={inputConsistency.alts[cIdx]} defuzzify={defuzzify} onApply={(r, c, val) => handleAltMatrixChange(cIdx, r, c, val)} />
+                         </Grid>
+                      </Grid>
+                   )}
+                </Box>
              ))}
              <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
                 <Button startIcon={<ArrowBackIosNewIcon />} onClick={() => setActiveTab(1)}>Назад</Button>
@@ -1071,14 +5851,63 @@ function App() {
         {/* TAB 3: RESULTS */}
         {activeTab === 3 && results && (
           <Stack spacing={3}>
-             <Typography variant="h5" color="primary">Кроки Розрахунку (Steps 2-5)</Typography>
-             <TableFuzzyWeights criteriaNames={criteriaNames} critGeoMeans={results.critGeoMeans} critFuzzyWeights={results.critFuzzyWeights} sumCritGeoMeans={results.sumCritGeoMeans} invSumCrit={results.invSumCrit} />
-             <TableNormalizedWeights criteriaNames={criteriaNames} critFuzzyWeights={results.critFuzzyWeights} critNormWeights={results.critNormWeights} />
-             <Typography variant="h6" color="primary" sx={{mt: 3}}>Ваги Альтернатив відносно Критеріїв (Steps 2-5 повторно)</Typography>
-             {criteriaNames.map((critName, cIdx) => (
-                <TableAltNormalizedWeights key={cIdx} criteriaName={critName} altNames={altNames} matrix={altMatrices[cIdx]} localWeights={results.altLocalWeights[cIdx]} critIndex={cIdx} />
-             ))}
-             <TableAltWeightsCombined criteriaNames={criteriaNames} altNames={altNames} critNormWeights={results.critNormWeights} altLocalWeights={results.altLocalWeights} globalScores={results.globalScores} />
+             <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', flexWrap: 'wrap', gap: 2 }}>
+                <Typography variant="h5" color="primary">Кроки Розрахунку ({methodLabel})</Typography>
+                <Box sx={{ display: 'flex', gap: 1 }}>
+                   <Button variant="outlined" startIcon={<DownloadIcon />} onClick={() => handleExportResults('xlsx')}>Експорт XLSX</Button>
+                   <Button variant="outlined" startIcon={<DownloadIcon />} onClick={() => handleExportResults('csv')}>Експорт CSV</Button>
+                </Box>
+             </Box>
+             {experts.length > 1 && (
+                <>
+                   <Typography variant="h6" color="primary">Агреговані групові матриці ({GROUP_AGGREGATIONS.find(a => a.id === groupAggregation)?.label})</Typography>
+                   {internalNodes.map(node => (
+                      <TableAggregatedMatrix key={node.id} title={nodeMatrixLabel(node)} items={node.children.map(c => c.name)} matrix={group.critMatrices[node.id]} />
+                   ))}
+                   {criteriaNames.map((critName, cIdx) => !altRatings[leaves[cIdx].id] && (
+                      <TableAggregatedMatrix key={cIdx} title={`Альтернативи відносно критерію: ${critName}`} items={altNames} matrix={groupAltMatrices[cIdx]} />
+                   ))}
+                </>
+             )}
+             {results.nodes.map(({ node, derivation: steps }, nIdx) => {
+                const names = node.children.map(c => c.name);
+                const caption = node.id === GOAL_ID ? undefined : nodeMatrixLabel(node);
+                if (steps.method === 'chang') return <TableChangExtents key={node.id} title={`Синтетичні протяжності та ступені можливості: ${nodeMatrixLabel(node)}`} itemLabel="Критерій" names={names} steps={steps} />;
+                if (steps.method === 'fpp') return <TableFppWeights key={node.id} title={`Ваги FPP та індекс узгодженості λ: ${nodeMatrixLabel(node)}`} itemLabel="Критерій" names={names} steps={steps} />;
+                return (
+                   <React.Fragment key={node.id}>
+                      <TableFuzzyWeights criteriaNames={names} critGeoMeans={steps.geoMeans} critFuzzyWeights={steps.fuzzyWeights} sumCritGeoMeans={steps.sumGeo} invSumCrit={steps.invSum} tableNumber={nodeTableNumber(nIdx)} caption={caption} />
+                      <TableNormalizedWeights criteriaNames={names} critFuzzyWeights={steps.fuzzyWeights} critDefuzzified={steps.defuzzified} critNormWeights={steps.weights} defuzzifier={getDefuzzifier(defuzzMethod)} optimism={defuzzOptimism} tableNumber={nodeTableNumber(nIdx)} caption={caption} />
+                   </React.Fragment>
+                );
+             })}
+             {hasSubCriteria && <TableHierarchyWeights hierarchy={hierarchy} nodes={results.nodes} />}
+             <Typography variant="h6" color="primary" sx={{mt: 3}}>Ваги Альтернатив відносно Критеріїв ({methodLabel} повторно)</Typography>
+             {criteriaNames.map((critName, cIdx) => {
+                const steps = results.alts[cIdx];
+                if (steps.method === 'rating') return <TableRatingWeights key={cIdx} title={`Критерій: ${critName}`} names={altNames} rating={altRatings[leaves[cIdx].id]} steps={steps} defuzzifier={getDefuzzifier(defuzzMethod)} />;
+                if (steps.method === 'chang') return <TableChangExtents key={cIdx} title={`Критерій: ${critName}`} itemLabel="Альтернатива" names={altNames} steps={steps} />;
+                if (steps.method === 'fpp') return <TableFppWeights key={cIdx} title={`Критерій: ${critName}`} itemLabel="Альтернатива" names={altNames} steps={steps} />;
+                return <TableAltNormalizedWeights key={cIdx} criteriaName={critName} altNames={altNames} steps={steps} tableNumber={leafTableNumber(cIdx)} defuzzifier={getDefuzzifier(defuzzMethod)} />;
+             })}
+             <TableAltWeightsCombined criteriaNames={criteriaNames} altNames={altNames} critNormWeights={results.critNormWeights} altLocalWeights={results.altLocalWeights} globalScores={results.globalScores} tableNumber={leafTableNumber(numCriteria)} critWeightsLabel={hasSubCriteria ? 'Глобальні ваги N (ієрархія)' : `Ваги N (Таблиця ${nodeTableNumber(0) + 4})`} />
+             {aggregationMode === 'fuzzy' && (
+                <TableFuzzyGlobalScores criteriaNames={criteriaNames} altNames={altNames} critFuzzyWeights={results.critFuzzyWeights} fuzzyGlobalScores={results.fuzzyGlobalScores} />
+             )}
+             <TableConsistency
+                matrixNames={importTargets.map(t => scales.length > 1 ? `${t.label} (шкала: ${scaleForMatrix(scales, matrixScales, t.key).name})` : t.label)}
+                consistency={[...internalNodes.map(node => consistency.nodes[node.id]), ...consistency.alts.filter((_, cIdx) => !altRatings[leaves[cIdx].id])]}
+             />
+             {expertResults.length > 0 && (
+                <TableExpertRankings altNames={altNames} experts={experts} expertResults={expertResults} groupRanked={results.ranked} />
+             )}
+             <TableRankReversal altNames={altNames} hierarchy={hierarchy} matrices={group} options={modelOptions} baseRanked={results.ranked} />
+             {inconsistentMatrices.length > 0 && (
+                <Alert severity="warning">
+                   <AlertTitle>Неузгоджені судження (CR &gt; {CONSISTENCY_THRESHOLD})</AlertTitle>
+                   Ранжування нижче базується на матрицях, що потребують перегляду експертом: {inconsistentMatrices.join(', ')}.
+                </Alert>
+             )}
              <Paper sx={{ p: 3, border: '2px solid #4caf50' }}>
                 <Typography variant="h5" gutterBottom align="center" color="success.main">Фінальне Ранжування</Typography>
                 <TableContainer>
@@ -1087,17 +5916,29 @@ function App() {
                          <TableRow>
                             <TableCell align="center">Ранг</TableCell>
                             <TableCell>Альтернатива</TableCell>
-                            <TableCell align="right">Глобальна Вага (Score)</TableCell>
+                            {aggregationMode === 'fuzzy' && <TableCell align="center">Нечітка оцінка (S)</TableCell>}
+                            {aggregationMode === 'fuzzy' && <TableCell align="center">Перекриття з сусідами (вище / нижче)</TableCell>}
+                            <TableCell align="right">{aggregationMode === 'fuzzy' ? FUZZY_RANKING_METHODS.find(m => m.id === fuzzyRankingMethod)?.label : 'Глобальна Вага (Score)'}</TableCell>
                          </TableRow>
                       </TableHead>
                       <TableBody>
-                         {results.ranked.map((item, idx) => (
-                            <TableRow key={item.idx} hover sx={{ bgcolor: idx === 0 ? '#e8f5e9' : 'inherit' }}>
-                               <TableCell align="center"><Typography variant="h4" color={idx === 0 ? 'success.main' : 'text.secondary'}>{idx + 1}</Typography></TableCell>
-                               <TableCell><Typography variant="h6">{item.name}</Typography></TableCell>
-                               <TableCell align="right"><Typography variant="h6" sx={{ fontWeight: 'bold' }}>{formatNumber(item.score)}</Typography></TableCell>
-                            </TableRow>
-                         ))}
+                         {results.ranked.map((item, idx) => {
+                            const above = results.ranked[idx - 1];
+                            const below = results.ranked[idx + 1];
+                            return (
+                               <TableRow key={item.idx} hover sx={{ bgcolor: idx === 0 ? '#e8f5e9' : 'inherit' }}>
+                                  <TableCell align="center"><Typography variant="h4" color={idx === 0 ? 'success.main' : 'text.secondary'}>{idx + 1}</Typography></TableCell>
+                                  <TableCell><Typography variant="h6">{item.name}</Typography></TableCell>
+                                  {aggregationMode === 'fuzzy' && <TableCell align="center">{formatTri(item.fuzzyScore, 4)}</TableCell>}
+                                  {aggregationMode === 'fuzzy' && (
+                                     <TableCell align="center">
+                                        {above ? formatNumber(fuzzyOverlap(item.fuzzyScore, above.fuzzyScore), 3) : '—'} / {below ? formatNumber(fuzzyOverlap(item.fuzzyScore, below.fuzzyScore), 3) : '—'}
+                                     </TableCell>
+                                  )}
+                                  <TableCell align="right"><Typography variant="h6" sx={{ fontWeight: 'bold' }}>{formatNumber(item.score)}</Typography></TableCell>
+                               </TableRow>
+                            );
+                         })}
                       </TableBody>
                    </Table>
                 </TableContainer>
@@ -1107,8 +5948,132 @@ function App() {
              </Box>
           </Stack>
         )}
+
+        {/* TAB 4: α-CUT ANALYSIS */}
+        {activeTab === 4 && results && (
+          <Stack spacing={3}>
+             <Typography variant="h5" color="primary">Аналіз α-зрізів та індексу оптимізму</Typography>
+             <AlphaCutAnalysis altNames={altNames} hierarchy={hierarchy} critMatrices={group.critMatrices} altMatrices={groupAltMatrices} altScores={altScores} />
+          </Stack>
+        )}
+
+        {/* TAB 5: CRISP AHP COMPARISON */}
+        {activeTab === 5 && results && (
+          <Stack spacing={3}>
+             <Typography variant="h5" color="primary">Класичний AHP (головний власний вектор) у порівнянні з нечітким</Typography>
+             <CrispAhpComparison
+                criteriaNames={criteriaNames}
+                altNames={altNames}
+                hierarchy={hierarchy}
+                critMatrices={group.critMatrices}
+                altMatrices={groupAltMatrices}
+                altScores={altScores}
+                fuzzyCritWeights={results.critNormWeights}
+                fuzzyAltWeights={results.altLocalWeights}
+                fuzzyRanked={results.ranked}
+                fuzzyRankingLabel={aggregationMode === 'fuzzy' ? FUZZY_RANKING_METHODS.find(m => m.id === fuzzyRankingMethod)?.label : undefined}
+             />
+          </Stack>
+        )}
+
+        {/* TAB 6: SENSITIVITY ANALYSIS */}
+        {activeTab === 6 && results && (
+          <Stack spacing={3}>
+             <Typography variant="h5" color="primary">Аналіз чутливості до ваг критеріїв</Typography>
+             <SensitivityAnalysis
+                key={`${criteriaNames.length}-${altNames.length}`}
+                criteriaNames={criteriaNames}
+                altNames={altNames}
+                critNormWeights={results.critNormWeights}
+                altLocalWeights={results.altLocalWeights}
+                fuzzyRankingLabel={aggregationMode === 'fuzzy' ? FUZZY_RANKING_METHODS.find(m => m.id === fuzzyRankingMethod)?.label : undefined}
+             />
+          </Stack>
+        )}
+
+        {/* TAB 7: MONTE CARLO SIMULATION */}
+        {activeTab === 7 && results && (
+          <Stack spacing={3}>
+             <Typography variant="h5" color="primary">Стійкість ранжування: симуляція Монте-Карло</Typography>
+             <MonteCarloAnalysis altNames={altNames} hierarchy={hierarchy} critMatrices={group.critMatrices} altMatrices={groupAltMatrices} altScores={altScores} />
+          </Stack>
+        )}
+
+        {/* TAB 8: FAHP–FUZZY TOPSIS */}
+        {activeTab === 8 && results && (
+          <Stack spacing={3}>
+             <Typography variant="h5" color="primary">Гібридний FAHP–fuzzy TOPSIS</Typography>
+             <TopsisAnalysis
+                criteriaNames={criteriaNames}
+                altNames={altNames}
+                columns={topsisColumns}
+                onColumnChange={handleTopsisColumnChange}
+                weightSource={topsisWeights}
+                onWeightSourceChange={setTopsisWeights}
+                critFuzzyWeights={results.critFuzzyWeights}
+                critNormWeights={results.critNormWeights}
+                fahpRanked={results.ranked}
+             />
+          </Stack>
+        )}
+
+        {/* TAB 9: REPORT */}
+        {activeTab === 9 && results && (
+          <Stack spacing={2}>
+             <Box className="no-print" sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                <Typography variant="h5" color="primary">Звіт</Typography>
+                <Tooltip title="У діалозі друку оберіть «Зберегти як PDF»">
+                   <Button variant="contained" startIcon={<PrintIcon />} onClick={() => window.print()}>Друк / PDF</Button>
+                </Tooltip>
+             </Box>
+             <ReportView
+                projectName={projectName}
+                methodLabel={WEIGHTING_METHODS.find(m => m.id === weightingMethod)?.label ?? ''}
+                scales={scales.filter(scale => importTargets.some(t => scaleForMatrix(scales, matrixScales, t.key).id === scale.id))}
+                hierarchy={hierarchy}
+                altNames={altNames}
+                matrices={group}
+                altRatings={altRatings}
+                numExperts={experts.length}
+                results={results}
+                consistency={consistency}
+                inconsistentMatrices={inconsistentMatrices}
+                defuzzifier={getDefuzzifier(defuzzMethod)}
+                optimism={defuzzOptimism}
+                aggregationMode={aggregationMode}
+                fuzzyRankingMethod={fuzzyRankingMethod}
+             />
+          </Stack>
+        )}
       </Container>
-      <LinguisticTermEditor open={modalOpen} onClose={() => setModalOpen(false)} terms={terms} onSave={setTerms} />
+      <ProjectLibraryDrawer
+        open={libraryOpen}
+        onClose={() => setLibraryOpen(false)}
+        entries={library}
+        currentId={projectId}
+        onSwitch={handleSwitchProject}
+        onRename={handleRenameProject}
+        onDuplicate={handleDuplicateProject}
+        onDelete={handleDeleteProject}
+        onCreateExample={handleOpenExample}
+        onCreateBlank={(n, m) => openLibraryProject(crypto.randomUUID(), `Порожній ${n}×${m}`, getBlankProject(n, m))}
+      />
+      <MatrixImportDialog open={importOpen} onClose={() => setImportOpen(false)} targets={importTargets} onApply={handleImportMatrices} />
+      <LinguisticTermEditor
+        open={editingScale !== undefined}
+        onClose={() => setEditingScaleId(null)}
+        scaleName={editingScale?.name ?? ''}
+        terms={editingScale?.terms ?? scales[0].terms}
+        onSave={(newTerms) => editingScale && handleSaveTerms(editingScale.id, newTerms)}
+      />
+      {pendingScale && (
+        <TermMigrationDialog
+          removed={pendingScale.removed}
+          terms={pendingScale.terms}
+          onCancel={() => setPendingScale(null)}
+          onConfirm={(replacements) => applyScale(pendingScale.scaleId, pendingScale.terms, replacements)}
+        />
+      )}
     </ThemeProvider>
   );
 }
@@ -0,0 +1,142 @@
+// Monte Carlo robustness simulation of the crisp AHP model.
+// Kept free of React so the same code runs inside simulation.worker.ts.
+
+// Triangular (l, m, u) or trapezoidal (l, m, m2, u) judgment
+type Tri = { l: number; m: number; m2?: number; u: number };
+
+export type SimulationModel = {
+  // One fuzzy matrix per internal criteria node (only the upper triangle is sampled)
+  critMatrices: Tri[][][];
+  // For every leaf: the (matrix index, child position) pairs on the path from the goal
+  leafPaths: Array<Array<[number, number]>>;
+  // One fuzzy alternatives matrix per leaf criterion
+  altMatrices: Tri[][][];
+  // Per leaf: the alternatives' fuzzy scores when they are rated instead of compared; sampled in place of the matrix
+  altScores: Array<Tri[] | null>;
+};
+
+export type SimulationRequest = {
+  model: SimulationModel;
+  iterations: number;
+  seed: number;
+};
+
+export type SimulationResult = {
+  iterations: number;
+  // rankAcceptability[alt][rank]: share of iterations in which the alternative took that rank
+  rankAcceptability: number[][];
+  meanScores: number[];
+  lowerScores: number[];
+  upperScores: number[];
+};
+
+export type SimulationMessage =
+  | { type: 'progress'; done: number }
+  | { type: 'done'; result: SimulationResult };
+
+export const SIMULATION_CONFIDENCE = 0.95;
+const PROGRESS_STEP = 250;
+
+// Principal eigenvector (normalized to sum 1) and eigenvalue of a positive matrix by power iteration
+export const principalEigen = (matrix: number[][], maxIter = 200, tol = 1e-10): { vector: number[]; lambdaMax: number } => {
+  const n = matrix.length;
+  const multiply = (w: number[]) => matrix.map(row => row.reduce((acc, a, j) => acc + a * w[j], 0));
+  let w: number[] = Array(n).fill(1 / n);
+  for (let iter = 0; iter < maxIter; iter++) {
+    const next = multiply(w);
+    const sum = next.reduce((a, b) => a + b, 0);
+    const normalized = next.map(v => sum !== 0 ? v / sum : 0);
+    const delta = normalized.reduce((acc, v, i) => Math.max(acc, Math.abs(v - w[i])), 0);
+    w = normalized;
+    if (delta < tol) break;
+  }
+  const aw = multiply(w);
+  const lambdaMax = n > 0 ? aw.reduce((acc, v, i) => acc + (w[i] !== 0 ? v / w[i] : 0), 0) / n : 0;
+  return { vector: w, lambdaMax };
+};
+
+// mulberry32: small seedable PRNG, so a run can be reproduced from its seed
+export const createRng = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Inverse CDF of the triangular distribution on [l, u] with mode m,
+// or of the trapezoidal distribution with a flat density on [m, m2]
+export const sampleTriangular = (t: Tri, p: number): number => {
+  const m2 = t.m2 ?? t.m;
+  const h = t.u + m2 - t.m - t.l;
+  if (h <= 0) return t.m;
+  // CDF at the ends of the plateau
+  const left = (t.m - t.l) / h;
+  const right = 1 - (t.u - m2) / h;
+  if (p < left) return t.l + Math.sqrt(p * h * (t.m - t.l));
+  if (p <= right) return t.m + (p - left) * h / 2;
+  return t.u - Math.sqrt((1 - p) * h * (t.u - m2));
+};
+
+// Reciprocal crisp matrix built from samples of the upper triangle
+const sampleMatrix = (matrix: Tri[][], rng: () => number): number[][] => {
+  const n = matrix.length;
+  const sample: number[][] = Array.from({ length: n }, () => Array(n).fill(1));
+  for (let r = 0; r < n; r++) {
+    for (let c = r + 1; c < n; c++) {
+      const value = sampleTriangular(matrix[r][c], rng());
+      sample[r][c] = value;
+      sample[c][r] = 1 / value;
+    }
+  }
+  return sample;
+};
+
+const normalize = (values: number[]): number[] => {
+  const sum = values.reduce((a, b) => a + b, 0);
+  return values.map(v => sum !== 0 ? v / sum : 0);
+};
+
+// Indices of the items ordered from the highest to the lowest score
+export const rankOrder = (scores: number[]): number[] =>
+  scores.map((score, idx) => ({ score, idx })).sort((a, b) => b.score - a.score).map(item => item.idx);
+
+const percentile = (sorted: number[], q: number): number => {
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+};
+
+export const runSimulation = ({ model, iterations, seed }: SimulationRequest, onProgress?: (done: number) => void): SimulationResult => {
+  const rng = createRng(seed);
+  const numAlts = model.altMatrices[0]?.length ?? 0;
+  const rankCounts = Array.from({ length: numAlts }, () => Array(numAlts).fill(0));
+  const samples = Array.from({ length: numAlts }, () => new Float64Array(iterations));
+
+  for (let iter = 0; iter < iterations; iter++) {
+    const critLocal = model.critMatrices.map(mat => principalEigen(sampleMatrix(mat, rng)).vector);
+    const leafWeights = model.leafPaths.map(path => path.reduce((acc, [matIdx, pos]) => acc * critLocal[matIdx][pos], 1));
+    const altLocal = model.altMatrices.map((mat, cIdx) => {
+      const scores = model.altScores[cIdx];
+      return scores ? normalize(scores.map(t => sampleTriangular(t, rng()))) : principalEigen(sampleMatrix(mat, rng)).vector;
+    });
+    const scores = Array.from({ length: numAlts }, (_, altIdx) => leafWeights.reduce((acc, w, cIdx) => acc + w * altLocal[cIdx][altIdx], 0));
+    rankOrder(scores).forEach((altIdx, rank) => { rankCounts[altIdx][rank]++; });
+    scores.forEach((score, altIdx) => { samples[altIdx][iter] = score; });
+    if (onProgress && (iter + 1) % PROGRESS_STEP === 0) onProgress(iter + 1);
+  }
+
+  const tail = (1 - SIMULATION_CONFIDENCE) / 2;
+  const sorted = samples.map(s => Array.from(s).sort((a, b) => a - b));
+  return {
+    iterations,
+    rankAcceptability: rankCounts.map(row => row.map(count => count / iterations)),
+    meanScores: samples.map(s => s.reduce((a, b) => a + b, 0) / iterations),
+    lowerScores: sorted.map(s => percentile(s, tail)),
+    upperScores: sorted.map(s => percentile(s, 1 - tail)),
+  };
+};
@@ -0,0 +1,8 @@
+import { runSimulation, type SimulationMessage, type SimulationRequest } from './simulation';
+
+const post = (message: SimulationMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<SimulationRequest>) => {
+  const result = runSimulation(event.data, done => post({ type: 'progress', done }));
+  post({ type: 'done', result });
+};